@@ -2,6 +2,8 @@ import { useEffect } from 'react';
 import { AuthProvider, useAuth } from './components/AuthContext';
 import ChecklistApp from './components/ChecklistApp';
 import GoogleAuth from './components/GoogleAuth';
+import SharedProjectView from './components/SharedProjectView';
+import { getSharedLinkParams } from './components/checklist/sharing';
 
 // Your Google OAuth Client ID
 const GOOGLE_CLIENT_ID = '74711016854-qfe6528f0ocvqg3rl1o78ngl1nhj97ed.apps.googleusercontent.com';
@@ -43,6 +45,16 @@ function AppContent() {
     loadGoogleScript();
   }, []);
 
+  // Share links open a read-only view that doesn't need an account
+  const sharedLink = getSharedLinkParams();
+  if (sharedLink) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SharedProjectView token={sharedLink.token} endpoint={sharedLink.endpoint} />
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -112,19 +124,53 @@ export default function App() {
 
 // Type declarations for Google Identity Services
 declare global {
+  interface GoogleTokenResponse {
+    access_token: string;
+    expires_in: number | string;
+    scope: string;
+    token_type: string;
+    error?: string;
+    error_description?: string;
+  }
+
+  interface GoogleTokenClientConfig {
+    client_id: string;
+    scope: string;
+    prompt?: string;
+    hint?: string;
+    callback: (response: GoogleTokenResponse) => void;
+    error_callback?: (error: { type: string; message?: string }) => void;
+  }
+
+  interface GoogleIdConfiguration {
+    client_id: string;
+    callback: (response: { credential?: string; select_by?: string }) => void;
+    auto_select?: boolean;
+    login_hint?: string;
+    cancel_on_tap_outside?: boolean;
+  }
+
+  interface GooglePromptNotification {
+    isNotDisplayed?: () => boolean;
+    isSkippedMoment?: () => boolean;
+    isDismissedMoment?: () => boolean;
+    getDismissedReason?: () => string;
+  }
+
   interface Window {
     google: {
       accounts: {
         id: {
-          initialize: (config: any) => void;
-          prompt: () => void;
+          initialize: (config: GoogleIdConfiguration) => void;
+          prompt: (listener?: (notification: GooglePromptNotification) => void) => void;
           renderButton: (element: HTMLElement, config: any) => void;
           disableAutoSelect: () => void;
         };
         oauth2: {
-          initTokenClient: (config: any) => {
-            requestAccessToken: () => void;
+          initTokenClient: (config: GoogleTokenClientConfig) => {
+            requestAccessToken: (overrides?: { prompt?: string; hint?: string }) => void;
           };
+          revoke: (accessToken: string, done: () => void) => void;
         };
       };
     };
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { History, Loader2 } from 'lucide-react';
+import MemberAvatar from './MemberAvatar';
+import { ActivityEntry, Project } from './checklist/types';
+import { describeActivity, findActivityItem, getActivityActors } from './checklist/activity';
+
+interface ActivityTimelineProps {
+  project: Project;
+  entries: ActivityEntry[];
+  isLoading: boolean;
+  error: string | null;
+  onOpen: () => void;
+  onSelectItem: (categoryId: string, itemId: string) => void;
+}
+
+const ALL = 'all';
+
+const TYPE_LABELS: Record<ActivityEntry['type'], string> = {
+  status: 'Status',
+  note: 'Note',
+  assignment: 'Assignees',
+  template: 'Checklist',
+  restore: 'Restore'
+};
+
+export default function ActivityTimeline({ project, entries, isLoading, error, onOpen, onSelectItem }: ActivityTimelineProps) {
+  const [open, setOpen] = useState(false);
+  const [actorFilter, setActorFilter] = useState(ALL);
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+
+  const actors = getActivityActors(entries);
+  const visible = entries
+    .filter(entry => actorFilter === ALL || entry.actorEmail === actorFilter)
+    .filter(entry => categoryFilter === ALL || entry.categoryId === categoryFilter)
+    .slice()
+    .reverse();
+
+  // Newest first, grouped by day
+  const days: { day: string; entries: ActivityEntry[] }[] = [];
+  visible.forEach(entry => {
+    const day = new Date(entry.at).toLocaleDateString();
+    const last = days[days.length - 1];
+    if (last?.day === day) {
+      last.entries.push(entry);
+    } else {
+      days.push({ day, entries: [entry] });
+    }
+  });
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next: boolean) => {
+        setOpen(next);
+        if (next) onOpen();
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <History className="w-4 h-4" />
+          Activity
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Activity</SheetTitle>
+          <SheetDescription>Every change saved to "{project.name}", newest first.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 my-4">
+          <Select value={actorFilter} onValueChange={setActorFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everyone</SelectItem>
+              {actors.map(actor => (
+                <SelectItem key={actor.email} value={actor.email}>{actor.name || actor.email}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {project.categories.map(category => (
+                <SelectItem key={category.id} value={category.id}>{category.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading && entries.length === 0 && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!isLoading && !error && visible.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">No activity matches these filters.</p>
+        )}
+
+        <div className="space-y-6">
+          {days.map(({ day, entries: dayEntries }) => (
+            <div key={day} className="space-y-3">
+              <p className="text-xs text-muted-foreground">{day}</p>
+              {dayEntries.map(entry => {
+                const item = findActivityItem(project, entry.itemId);
+                return (
+                  <div key={entry.id} className="flex items-start gap-3">
+                    <MemberAvatar member={{ email: entry.actorEmail, name: entry.actorName }} />
+                    <div className="flex-1 min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="text-sm text-foreground truncate">{entry.actorName || entry.actorEmail}</span>
+                        {new Date(entry.at).toLocaleTimeString()}
+                        <Badge variant="outline" className="text-xs ml-auto">{TYPE_LABELS[entry.type]}</Badge>
+                      </div>
+                      {item && entry.categoryId && (
+                        <button
+                          type="button"
+                          className="text-sm text-left hover:underline"
+                          onClick={() => {
+                            setOpen(false);
+                            onSelectItem(entry.categoryId as string, item.id);
+                          }}
+                        >
+                          {item.text}
+                        </button>
+                      )}
+                      <p className="text-sm text-muted-foreground">{describeActivity(entry)}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
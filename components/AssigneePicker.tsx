@@ -0,0 +1,63 @@
+import { Button } from './ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Check, UserPlus } from 'lucide-react';
+import MemberAvatar from './MemberAvatar';
+import { ProjectMember } from './checklist/types';
+
+interface AssigneePickerProps {
+  members: ProjectMember[];
+  assignees: string[];
+  onChange: (assignees: string[]) => void;
+}
+
+const MAX_AVATARS = 3;
+
+export default function AssigneePicker({ members, assignees, onChange }: AssigneePickerProps) {
+  // Assignees who have since left the project still show until they are unassigned
+  const assigned = assignees.map(email => members.find(member => member.email === email) ?? { email });
+
+  const toggle = (email: string) => {
+    onChange(assignees.includes(email) ? assignees.filter(e => e !== email) : [...assignees, email]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-1" title={assigned.length > 0 ? 'Change assignees' : 'Assign'}>
+          {assigned.length === 0 ? (
+            <UserPlus className="w-4 h-4 text-muted-foreground" />
+          ) : (
+            <span className="flex -space-x-2">
+              {assigned.slice(0, MAX_AVATARS).map(member => (
+                <MemberAvatar key={member.email} member={member} />
+              ))}
+              {assigned.length > MAX_AVATARS && (
+                <span className="w-6 h-6 rounded-full bg-muted text-[10px] flex items-center justify-center border-2 border-background">
+                  +{assigned.length - MAX_AVATARS}
+                </span>
+              )}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-1" align="end">
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">Assign to</p>
+        {members.map(member => (
+          <button
+            key={member.email}
+            type="button"
+            onClick={() => toggle(member.email)}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm hover:bg-muted text-left"
+          >
+            <MemberAvatar member={member} />
+            <span className="flex-1 truncate">{member.name || member.email}</span>
+            {assignees.includes(member.email) && <Check className="w-4 h-4" />}
+          </button>
+        ))}
+        {members.length <= 1 && (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">Add project members to assign items to them.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
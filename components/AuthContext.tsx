@@ -1,4 +1,4 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 
 // Google OAuth Client ID interface
 interface AuthContextType {
@@ -10,6 +10,16 @@ interface AuthContextType {
   error: string | null;
   isDemo: boolean;
   accessToken: string | null;
+  tokenExpiresAt: number | null;
+  // Resolves with a token that is valid for at least another minute, refreshing it if needed.
+  // Refreshing goes through the GIS popup, so only call these from a click handler.
+  getAccessToken: () => Promise<string | null>;
+  // Asks Google for a new token; resolves null (and sets error) when the popup fails or is closed
+  refreshAccessToken: () => Promise<string | null>;
+  // Google ID token (JWT) sent to the cloud functions, which verify it themselves.
+  // Resolves null (and sets error) when One Tap can't confirm the user; they stay signed in locally.
+  getIdToken: () => Promise<string | null>;
+  refreshIdToken: () => Promise<string | null>;
   currentOrigin: string;
   isFigmaSite: boolean;
 }
@@ -28,14 +38,145 @@ interface AuthProviderProps {
   clientId: string;
 }
 
+// Scopes needed to read the signed-in user's profile
+const GOOGLE_SCOPES = 'openid email profile';
+const GIS_LOAD_TIMEOUT_MS = 10000;
+// One Tap doesn't always report back (e.g. FedCM prompts), so a silent ID token request gives up after this
+const ID_TOKEN_TIMEOUT_MS = 30000;
+const MIN_TOKEN_LIFETIME_MS = 60 * 1000;
+// Renew the ID token this long before Google's expiry so in-flight requests never carry a dead token
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-export function AuthProvider({ children }: AuthProviderProps) {
+// Seconds-since-epoch `exp` claim of a JWT, as milliseconds
+function getJwtExpiry(token: string): number {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return Number(JSON.parse(atob(payload)).exp) * 1000 || 0;
+  } catch {
+    return 0;
+  }
+}
+
+// App.tsx injects the GIS script asynchronously, so it may not be ready on the first click
+function waitForGoogleIdentityServices(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const check = () => {
+      if (window.google?.accounts?.oauth2) {
+        resolve();
+      } else if (Date.now() - startedAt > GIS_LOAD_TIMEOUT_MS) {
+        reject(new Error('Google Identity Services failed to load. Check your connection and try again.'));
+      } else {
+        setTimeout(check, 100);
+      }
+    };
+    check();
+  });
+}
+
+// Opens the GIS consent popup and resolves with the granted access token.
+// With prompt '' and a login hint, GIS reuses the existing consent, but it still opens a popup,
+// which browsers block unless a click started it.
+function requestGoogleAccessToken(
+  clientId: string,
+  overrides?: { prompt?: string; hint?: string }
+): Promise<GoogleTokenResponse> {
+  return new Promise((resolve, reject) => {
+    const tokenClient = window.google.accounts.oauth2.initTokenClient({
+      client_id: clientId,
+      scope: GOOGLE_SCOPES,
+      callback: (response) => {
+        if (response.error) {
+          reject(new Error(describeGoogleError(response.error, response.error_description)));
+        } else {
+          resolve(response);
+        }
+      },
+      error_callback: (err) => {
+        reject(new Error(describeGoogleError(err.type, err.message)));
+      }
+    });
+    tokenClient.requestAccessToken(overrides);
+  });
+}
+
+// Asks Google One Tap for an ID token for the signed-in account. Returning users who already
+// granted consent get one without interaction thanks to auto_select and the login hint.
+function requestGoogleIdToken(clientId: string, hint: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      reject(new Error('Google did not confirm your identity in time.'));
+    }, ID_TOKEN_TIMEOUT_MS);
+    const stopTimer = () => clearTimeout(timeoutId);
+
+    window.google.accounts.id.initialize({
+      client_id: clientId,
+      auto_select: true,
+      login_hint: hint,
+      callback: (response) => {
+        stopTimer();
+        if (response.credential) {
+          resolve(response.credential);
+        } else {
+          reject(new Error('Google did not return an ID token.'));
+        }
+      }
+    });
+    // Closing the prompt is a dismissed moment; so is a successful sign-in, which the callback above handles
+    window.google.accounts.id.prompt((notification) => {
+      const dismissed = notification.isDismissedMoment?.() && notification.getDismissedReason?.() !== 'credential_returned';
+      if (notification.isNotDisplayed?.() || notification.isSkippedMoment?.() || dismissed) {
+        stopTimer();
+        reject(new Error('Google could not confirm your identity without interaction.'));
+      }
+    });
+  });
+}
+
+function describeGoogleError(code: string, description?: string): string {
+  switch (code) {
+    case 'popup_closed':
+      return 'The Google sign-in window was closed before finishing.';
+    case 'popup_failed_to_open':
+      return 'The Google sign-in window could not be opened. Please allow pop-ups for this site.';
+    case 'access_denied':
+      return 'Access was denied. Please grant the requested permissions to sign in.';
+    default:
+      return description ? `Google sign-in failed: ${description}` : `Google sign-in failed (${code})`;
+  }
+}
+
+async function fetchGoogleProfile(accessToken: string): Promise<GoogleUser> {
+  const response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load your Google profile (status ${response.status})`);
+  }
+
+  const profile = await response.json();
+  return {
+    id: profile.id,
+    email: profile.email,
+    name: profile.name ?? profile.email,
+    picture: profile.picture ?? '',
+    given_name: profile.given_name ?? profile.name ?? '',
+    family_name: profile.family_name ?? ''
+  };
+}
+
+export function AuthProvider({ children, clientId }: AuthProviderProps) {
   const [user, setUser] = useState<GoogleUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDemo, setIsDemo] = useState(false);
   const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const [idToken, setIdToken] = useState<string | null>(null);
+  const pendingRefresh = useRef<Promise<string | null> | null>(null);
+  const pendingIdToken = useRef<Promise<string | null> | null>(null);
 
   // Determine environment
   const currentOrigin = window.location.origin;
@@ -60,18 +201,108 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Try to load real user from localStorage
       const storedUser = localStorage.getItem('google-user');
       const storedToken = localStorage.getItem('google-access-token');
+      const expiresAt = Number(localStorage.getItem('google-token-expires-at')) || 0;
       if (storedUser && storedToken) {
         try {
+          // The access token is only needed for the profile at sign-in, so an expired one doesn't end the session
           setUser(JSON.parse(storedUser));
           setAccessToken(storedToken);
+          setTokenExpiresAt(expiresAt);
+          setIdToken(localStorage.getItem('google-id-token'));
         } catch (err) {
           console.error('Failed to parse stored user:', err);
+          clearStoredSession();
         }
+      } else {
+        clearStoredSession();
       }
     }
     setIsLoading(false);
   }, [isFigmaSite]);
 
+  // Refresh the ID token silently shortly before it expires. One Tap needs no click, unlike the
+  // access token popup; when it fails the user stays signed in and getIdToken tries again on demand.
+  useEffect(() => {
+    if (isDemo || !user || !idToken) return;
+
+    const delay = Math.max(getJwtExpiry(idToken) - Date.now() - REFRESH_MARGIN_MS, 0);
+    const timeoutId = setTimeout(() => {
+      refreshIdToken();
+    }, delay);
+    return () => clearTimeout(timeoutId);
+  }, [isDemo, user, idToken]);
+
+  const storeToken = (tokenResponse: GoogleTokenResponse) => {
+    const expiresAt = Date.now() + Number(tokenResponse.expires_in) * 1000;
+    localStorage.setItem('google-access-token', tokenResponse.access_token);
+    localStorage.setItem('google-token-expires-at', String(expiresAt));
+    setAccessToken(tokenResponse.access_token);
+    setTokenExpiresAt(expiresAt);
+  };
+
+  const refreshAccessToken = (): Promise<string | null> => {
+    if (isDemo || !user) return Promise.resolve(null);
+
+    // Concurrent callers (e.g. several failed requests) share one refresh
+    if (!pendingRefresh.current) {
+      pendingRefresh.current = (async () => {
+        try {
+          await waitForGoogleIdentityServices();
+          const tokenResponse = await requestGoogleAccessToken(clientId, { prompt: '', hint: user.email });
+          storeToken(tokenResponse);
+          return tokenResponse.access_token;
+        } catch (err) {
+          console.error('Access token refresh failed:', err);
+          setError(err instanceof Error ? err.message : 'Failed to refresh your Google access token');
+          return null;
+        } finally {
+          pendingRefresh.current = null;
+        }
+      })();
+    }
+    return pendingRefresh.current;
+  };
+
+  const refreshIdToken = (): Promise<string | null> => {
+    if (isDemo || !user) return Promise.resolve(null);
+
+    if (!pendingIdToken.current) {
+      pendingIdToken.current = (async () => {
+        try {
+          await waitForGoogleIdentityServices();
+          const credential = await requestGoogleIdToken(clientId, user.email);
+          localStorage.setItem('google-id-token', credential);
+          setIdToken(credential);
+          return credential;
+        } catch (err) {
+          // The session stays; without an ID token the app keeps working locally until Google confirms the user
+          console.error('ID token refresh failed:', err);
+          setError('Cloud sync is paused until Google confirms your identity. Sign in again to resume it.');
+          return null;
+        } finally {
+          pendingIdToken.current = null;
+        }
+      })();
+    }
+    return pendingIdToken.current;
+  };
+
+  const getIdToken = async (): Promise<string | null> => {
+    if (isDemo || !user) return null;
+    if (idToken && getJwtExpiry(idToken) - Date.now() > MIN_TOKEN_LIFETIME_MS) {
+      return idToken;
+    }
+    return refreshIdToken();
+  };
+
+  const getAccessToken = async (): Promise<string | null> => {
+    if (isDemo || !user) return accessToken;
+    if (accessToken && tokenExpiresAt !== null && tokenExpiresAt - Date.now() > MIN_TOKEN_LIFETIME_MS) {
+      return accessToken;
+    }
+    return refreshAccessToken();
+  };
+
   const signIn = async () => {
     if (isDemo) {
       // Demo sign in with realistic user data
@@ -88,27 +319,44 @@ export function AuthProvider({ children }: AuthProviderProps) {
       setError(null);
     } else {
       try {
-        // Real Google OAuth implementation would go here
-        // For now, fall back to demo mode
-        setError('Real Google OAuth requires additional setup. Using demo mode for now.');
-        setIsDemo(true);
-        setTimeout(() => signIn(), 100);
+        setError(null);
+        await waitForGoogleIdentityServices();
+        const tokenResponse = await requestGoogleAccessToken(clientId);
+        const profile = await fetchGoogleProfile(tokenResponse.access_token);
+
+        localStorage.setItem('google-user', JSON.stringify(profile));
+        storeToken(tokenResponse);
+        setUser(profile);
+
+        // The cloud functions authenticate with an ID token rather than the access token
+        try {
+          const credential = await requestGoogleIdToken(clientId, profile.email);
+          localStorage.setItem('google-id-token', credential);
+          setIdToken(credential);
+        } catch (err) {
+          console.error('Failed to obtain Google ID token:', err);
+          setError('Signed in, but cloud sync is unavailable until Google confirms your identity.');
+        }
       } catch (err) {
-        setError('Failed to sign in with Google');
+        setError(err instanceof Error ? err.message : 'Failed to sign in with Google');
         console.error('Sign in error:', err);
       }
     }
   };
 
   const signOut = () => {
+    if (!isDemo && accessToken) {
+      window.google?.accounts?.oauth2?.revoke(accessToken, () => {});
+    }
     setUser(null);
     setError(null);
     setAccessToken(null);
+    setTokenExpiresAt(null);
+    setIdToken(null);
     if (isDemo) {
       localStorage.removeItem('demo-google-user');
     } else {
-      localStorage.removeItem('google-user');
-      localStorage.removeItem('google-access-token');
+      clearStoredSession();
     }
   };
 
@@ -121,6 +369,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     error,
     isDemo,
     accessToken,
+    tokenExpiresAt,
+    getAccessToken,
+    refreshAccessToken,
+    getIdToken,
+    refreshIdToken,
     currentOrigin,
     isFigmaSite
   };
@@ -132,6 +385,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
   );
 }
 
+function clearStoredSession() {
+  localStorage.removeItem('google-user');
+  localStorage.removeItem('google-access-token');
+  localStorage.removeItem('google-token-expires-at');
+  localStorage.removeItem('google-id-token');
+}
+
 export function useAuth() {
   const context = useContext(AuthContext);
   if (!context) {
@@ -1,173 +1,335 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from './AuthContext';
+import ProjectSwitcher from './ProjectSwitcher';
+import TemplateEditor from './TemplateEditor';
+import CloudStorage, { SyncStatus } from './CloudStorage';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
-import { Checkbox } from './ui/checkbox';
-import { 
-  Palette, Image, Code, Users, FileDown, Database, 
-  Loader2, Check
-} from 'lucide-react';
-
-interface ChecklistItem {
-  id: string;
-  text: string;
-  priority: 'high' | 'medium' | 'low';
-}
-
-interface ChecklistCategory {
-  title: string;
-  icon: React.ComponentType<{ className?: string }>;
-  description: string;
-  items: ChecklistItem[];
-}
-
-interface ChecklistData {
-  [key: string]: boolean;
-}
+import ChecklistItemRow from './ChecklistItemRow';
+import HandoffReadiness from './HandoffReadiness';
+import PriorityWeightsEditor from './PriorityWeightsEditor';
+import ProjectMembers from './ProjectMembers';
+import ShareProjectDialog from './ShareProjectDialog';
+import DueDatePicker from './DueDatePicker';
+import SignOffPanel from './SignOffPanel';
+import ItemComments from './ItemComments';
+import LivePresence from './LivePresence';
+import ActivityTimeline from './ActivityTimeline';
+import ItemHistory from './ItemHistory';
+import SnapshotsDialog from './SnapshotsDialog';
+import FigmaPlugin from './FigmaPlugin';
+import LinkedFigmaFile from './LinkedFigmaFile';
+import FigmaNodeLinks from './FigmaNodeLinks';
+import FigmaAuditFindings from './FigmaAuditFindings';
+import MemberAvatar from './MemberAvatar';
+import { FileDown, Database, Loader2, Check, AlertCircle, UserCheck, Clock, MessageSquare, Figma, FileSearch } from 'lucide-react';
+import {
+  ChecklistData,
+  ChecklistItem,
+  ChecklistTemplate,
+  FigmaFileLink,
+  ItemDetails,
+  ItemStatus,
+  Project,
+  ProjectMember,
+  ProjectWorkspace,
+  SignOff
+} from './checklist/types';
+import { getCategoryIcon } from './checklist/icons';
+import { findTemplate, loadTemplates, saveTemplates } from './checklist/templates';
+import {
+  createProject,
+  duplicateProject,
+  updateProject,
+  ensureActiveProject,
+  getProjectKey,
+  migrateProject,
+  withLocalOwner
+} from './checklist/projects';
+import { getItemDetails, getProjectEvidenceSize, getSafeHref, withItemDetails } from './checklist/itemDetails';
+import { getItemStatus } from './checklist/status';
+import { getHandoffBlockers, getPriorityWeights, getWeightedProgress, HandoffBlocker } from './checklist/progress';
+import { countApprovals, getSignOff, MANUAL_SIGN_OFF_STATUSES, SIGN_OFF_ITEM_ID, withSignOff } from './checklist/signOff';
+import { countUnread, getThreads, useProjectComments } from './checklist/comments';
+import { RemoteChange, useLiveProject } from './checklist/realtime';
+import { useProjectActivity } from './checklist/activity';
+import { useProjectSnapshots } from './checklist/snapshots';
+import { getAssignees, getProjectMembers, isProjectOwner, normalizeEmail, withoutAssignee } from './checklist/members';
+import {
+  countOverdueItems,
+  daysUntil,
+  describeCountdown,
+  getItemDueDate,
+  getSchedule,
+  isOverdue,
+  withDueDate
+} from './checklist/schedule';
 
 export default function ChecklistApp() {
   const { user, isDemo } = useAuth();
-  const [checklists, setChecklists] = useState<ChecklistData>({});
+  const [workspace, setWorkspace] = useState<ProjectWorkspace>({ activeProjectId: null, projects: [] });
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
   const [activeTab, setActiveTab] = useState('design');
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
-
-  // Professional checklist categories
-  const checklistCategories: Record<string, ChecklistCategory> = {
-    design: {
-      title: 'Design System & Standards',
-      icon: Palette,
-      description: 'Core design requirements and system documentation',
-      items: [
-        { id: 'design-system', text: 'Design system components documented and standardized', priority: 'high' },
-        { id: 'responsive-breakpoints', text: 'Responsive breakpoints defined for all screen sizes', priority: 'high' },
-        { id: 'accessibility-wcag', text: 'WCAG 2.1 AA accessibility standards implemented', priority: 'high' },
-        { id: 'color-palette', text: 'Color palette with usage guidelines and contrast ratios', priority: 'medium' },
-        { id: 'typography-system', text: 'Typography scale, hierarchy, and web font implementation', priority: 'medium' },
-        { id: 'spacing-grid', text: 'Consistent spacing system and 8px/4px grid alignment', priority: 'medium' },
-        { id: 'component-states', text: 'All interactive component states designed (hover, focus, active, disabled)', priority: 'high' },
-        { id: 'dark-mode', text: 'Dark mode variants and theme switching implemented', priority: 'low' },
-        { id: 'motion-guidelines', text: 'Animation and transition guidelines documented', priority: 'low' }
-      ]
-    },
-    assets: {
-      title: 'Asset Preparation & Delivery',
-      icon: Image,
-      description: 'All design assets optimized and ready for development',
-      items: [
-        { id: 'icons-svg-optimized', text: 'All icons exported as optimized SVG with consistent sizing', priority: 'high' },
-        { id: 'images-webp', text: 'Images optimized in WebP format with fallbacks', priority: 'high' },
-        { id: 'logo-variations', text: 'Logo variations provided (horizontal, stacked, monogram, favicon)', priority: 'high' },
-        { id: 'custom-fonts', text: 'Custom fonts provided with proper licensing and formats', priority: 'medium' },
-        { id: 'illustrations-vector', text: 'Illustrations provided as scalable vector formats', priority: 'medium' },
-        { id: 'photography-optimized', text: 'Photography assets cropped and optimized for all breakpoints', priority: 'medium' },
-        { id: 'asset-organization', text: 'Asset folder structure organized and clearly labeled', priority: 'low' },
-        { id: 'retina-variants', text: '2x and 3x resolution variants for high-DPI displays', priority: 'low' }
-      ]
-    },
-    handoff: {
-      title: 'Developer Handoff & Documentation',
-      icon: Code,
-      description: 'Complete specifications and documentation for development team',
-      items: [
-        { id: 'design-specs', text: 'Detailed design specifications with measurements and spacing', priority: 'high' },
-        { id: 'interaction-documentation', text: 'All interactions, animations, and micro-interactions documented', priority: 'high' },
-        { id: 'component-documentation', text: 'Component usage guidelines and implementation notes', priority: 'high' },
-        { id: 'edge-cases-documented', text: 'Edge cases, error states, and empty states designed', priority: 'high' },
-        { id: 'responsive-behavior', text: 'Responsive behavior and breakpoint specifications documented', priority: 'high' },
-        { id: 'performance-requirements', text: 'Performance requirements and optimization guidelines', priority: 'medium' },
-        { id: 'browser-compatibility', text: 'Browser compatibility requirements specified', priority: 'medium' },
-        { id: 'implementation-timeline', text: 'Development timeline and milestone deliverables defined', priority: 'medium' },
-        { id: 'qa-checklist', text: 'Quality assurance checklist and testing scenarios provided', priority: 'low' }
-      ]
-    },
-    collaboration: {
-      title: 'Team Collaboration & Review',
-      icon: Users,
-      description: 'Stakeholder review and team collaboration processes',
-      items: [
-        { id: 'stakeholder-approval', text: 'Final design approval from all key stakeholders', priority: 'high' },
-        { id: 'design-review', text: 'Design review completed with development team', priority: 'high' },
-        { id: 'content-review', text: 'Content review and copywriting finalized', priority: 'high' },
-        { id: 'brand-compliance', text: 'Brand guidelines compliance verified', priority: 'medium' },
-        { id: 'legal-compliance', text: 'Legal and regulatory compliance checked', priority: 'medium' },
-        { id: 'user-testing', text: 'User testing completed and feedback incorporated', priority: 'medium' },
-        { id: 'feedback-incorporated', text: 'All feedback from reviews incorporated into final design', priority: 'high' },
-        { id: 'handoff-meeting', text: 'Handoff meeting scheduled and conducted with dev team', priority: 'medium' }
-      ]
-    }
-  };
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
+  const [showMyItems, setShowMyItems] = useState(false);
+
+  const activeProject = workspace.projects.find(p => getProjectKey(p) === workspace.activeProjectId) ?? null;
+  const checklists: ChecklistData = activeProject?.checklists ?? {};
+  const categories = activeProject?.categories ?? [];
+  const members = activeProject ? getProjectMembers(activeProject, user) : [];
+  const myEmail = user ? normalizeEmail(user.email) : null;
+  const comments = useProjectComments(activeProject, user?.id, !isDemo);
+  const activity = useProjectActivity(activeProject, !isDemo);
+  const snapshots = useProjectSnapshots(activeProject, !isDemo);
+  const live = useLiveProject(activeProject, showMyItems ? '' : activeTab, (change) => applyRemoteChange(change), !isDemo);
 
-  // Load saved data on component mount
+  // Projects are loaded and saved by CloudStorage; templates are kept here
   useEffect(() => {
     if (user?.id) {
-      const savedData = localStorage.getItem(`checklist-data-${user.id}`);
-      if (savedData) {
-        try {
-          const parsed = JSON.parse(savedData);
-          setChecklists(parsed.checklists || {});
-        } catch (err) {
-          console.error('Failed to parse saved checklist data:', err);
-        }
-      }
+      setTemplates(loadTemplates(user.id));
     }
   }, [user?.id]);
 
-  // Auto-save functionality
+  // Keep the selected tab valid when switching to a project with different categories
   useEffect(() => {
-    if (user?.id && Object.keys(checklists).length > 0) {
-      setSaveStatus('saving');
-      const timeoutId = setTimeout(() => {
-        const dataToSave = { 
-          checklists, 
-          timestamp: new Date().toISOString() 
-        };
-        localStorage.setItem(`checklist-data-${user.id}`, JSON.stringify(dataToSave));
-        setSaveStatus('saved');
-        setTimeout(() => setSaveStatus('idle'), 2000);
-      }, 1000);
-
-      return () => clearTimeout(timeoutId);
+    if (categories.length > 0 && !categories.some(category => category.id === activeTab)) {
+      setActiveTab(categories[0].id);
     }
-  }, [checklists, user?.id]);
+  }, [categories, activeTab]);
+
+  const setItemStatus = (itemId: string, status: ItemStatus) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    const previous = getItemStatus(activeProject.checklists, itemId);
+    if (previous !== status) live.publishChange(itemId, previous, status);
+    setWorkspace(prev => {
+      const current = { ...prev.projects.find(p => getProjectKey(p) === projectKey)?.checklists };
+      if (status === 'todo') {
+        delete current[itemId];
+      } else {
+        current[itemId] = status;
+      }
+      return updateProject(prev, projectKey, { checklists: current });
+    });
+  };
+
+  // Another viewer changed an item. Take it only if the item still has the status they started from;
+  // if it was changed here too, the local edit stays and the next sync merges the two.
+  // The author's save carries the change, so updatedAt is left alone and nothing is queued from here.
+  const applyRemoteChange = ({ itemId, from, to }: RemoteChange) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    setWorkspace(prev => {
+      const current = prev.projects.find(p => getProjectKey(p) === projectKey);
+      if (!current || getItemStatus(current.checklists, itemId) !== from) return prev;
+      const checklists = { ...current.checklists };
+      if (to === 'todo') {
+        delete checklists[itemId];
+      } else {
+        checklists[itemId] = to;
+      }
+      return {
+        ...prev,
+        projects: prev.projects.map(project => (project === current ? { ...current, checklists } : project))
+      };
+    });
+  };
+
+  const updateItemDetails = (itemId: string, changes: Partial<ItemDetails>) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    setWorkspace(prev => {
+      const current = prev.projects.find(p => getProjectKey(p) === projectKey);
+      if (!current) return prev;
+      return updateProject(prev, projectKey, { itemDetails: withItemDetails(current, itemId, changes) });
+    });
+  };
+
+  const setAssignees = (itemId: string, emails: string[]) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    setWorkspace(prev => {
+      const current = prev.projects.find(p => getProjectKey(p) === projectKey);
+      const assignments = { ...current?.assignments, [itemId]: emails };
+      if (emails.length === 0) delete assignments[itemId];
+      return updateProject(prev, projectKey, { assignments });
+    });
+  };
+
+  const setDueDate = (scope: 'categories' | 'items', id: string, dateKey: string | null) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    setWorkspace(prev => {
+      const current = prev.projects.find(p => getProjectKey(p) === projectKey) ?? null;
+      return updateProject(prev, projectKey, { schedule: withDueDate(getSchedule(current), scope, id, dateKey) });
+    });
+  };
+
+  const setTargetHandoffDate = (targetHandoffDate: string | null) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    setWorkspace(prev => {
+      const current = prev.projects.find(p => getProjectKey(p) === projectKey) ?? null;
+      return updateProject(prev, projectKey, {
+        schedule: { ...getSchedule(current), targetHandoffDate: targetHandoffDate ?? undefined }
+      });
+    });
+  };
+
+  // Sign-off responses come back from the approvals endpoint; apply them the way the server did
+  const applySignOff = (signOff: SignOff | null) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    setWorkspace(prev => {
+      const current = prev.projects.find(p => getProjectKey(p) === projectKey);
+      if (!current) return prev;
+      return updateProject(prev, projectKey, withSignOff(current, signOff));
+    });
+  };
+
+  // The server has already saved the restored copy; taking it locally makes the next sync merge cleanly
+  const restoreSnapshot = async (snapshotId: string) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    const { data } = await snapshots.restore(snapshotId);
+    setWorkspace(prev => updateProject(prev, projectKey, withLocalOwner(migrateProject(data), user?.id)));
+  };
+
+  // The member list is stored with the owner's entry so other members see who owns the project
+  const updateMembers = (update: (members: ProjectMember[]) => ProjectMember[], changes: Partial<Project> = {}) => {
+    if (!activeProject) return;
+    const projectKey = getProjectKey(activeProject);
+    setWorkspace(prev => {
+      const current = prev.projects.find(p => getProjectKey(p) === projectKey);
+      if (!current) return prev;
+      return updateProject(prev, projectKey, { ...changes, members: update(getProjectMembers(current, user)) });
+    });
+  };
+
+  const handleRemoveMember = (email: string) => {
+    updateMembers(
+      current => current.filter(member => member.email !== email),
+      { assignments: withoutAssignee(activeProject?.assignments, email) }
+    );
+  };
+
+  const handleCreateProject = (name: string, templateId: string) => {
+    const project = createProject(name, findTemplate(templates, templateId));
+    setWorkspace(prev => ({ activeProjectId: getProjectKey(project), projects: [...prev.projects, project] }));
+  };
+
+  // Projects started from a Figma link are named after the file and keep a link back to it
+  const handleCreateFromFigma = (name: string, _figmaUrl: string, { file, templateId }: { file: FigmaFileLink; templateId: string }) => {
+    const project: Project = { ...createProject(name, findTemplate(templates, templateId)), figma: file };
+    setWorkspace(prev => ({ activeProjectId: getProjectKey(project), projects: [...prev.projects, project] }));
+  };
+
+  const handleDuplicateProject = (projectKey: string) => {
+    const source = workspace.projects.find(p => getProjectKey(p) === projectKey);
+    if (!source) return;
+    const copy = duplicateProject(source);
+    setWorkspace(prev => ({ activeProjectId: getProjectKey(copy), projects: [...prev.projects, copy] }));
+  };
 
-  const toggleItem = (itemId: string) => {
-    setChecklists(prev => ({
+  const handleArchiveProject = (projectKey: string, archived: boolean) => {
+    setWorkspace(prev => ensureActiveProject(updateProject(prev, projectKey, { archived })));
+  };
+
+  const handleDeleteProject = (projectKey: string) => {
+    setWorkspace(prev => ensureActiveProject({
       ...prev,
-      [itemId]: !prev[itemId]
+      projects: prev.projects.filter(p => getProjectKey(p) !== projectKey)
     }));
   };
 
-  const getProgress = (categoryItems: ChecklistItem[]) => {
-    const completed = categoryItems.filter(item => checklists[item.id]).length;
-    return Math.round((completed / categoryItems.length) * 100);
+  const handleSaveTemplate = (template: ChecklistTemplate) => {
+    if (!user?.id) return;
+    const next = templates.some(t => t.id === template.id)
+      ? templates.map(t => (t.id === template.id ? template : t))
+      : [...templates, template];
+    setTemplates(next);
+    saveTemplates(user.id, next);
   };
 
-  const getTotalProgress = () => {
-    const allItems = Object.values(checklistCategories).flatMap(cat => cat.items);
-    const completed = allItems.filter(item => checklists[item.id]).length;
-    return Math.round((completed / allItems.length) * 100);
+  const handleDeleteTemplate = (templateId: string) => {
+    if (!user?.id) return;
+    const next = templates.filter(t => t.id !== templateId);
+    setTemplates(next);
+    saveTemplates(user.id, next);
+  };
+
+  // Weighted by priority; N/A items are left out of the denominator
+  const getProgress = (categoryItems: ChecklistItem[], project: Project | null = activeProject) =>
+    getWeightedProgress(categoryItems, project?.checklists ?? {}, getPriorityWeights(project));
+
+  const getTotalProgress = (project: Project | null = activeProject) => {
+    if (!project) return 0;
+    const allItems = project.categories.flatMap(cat => cat.items);
+    return getProgress(allItems, project);
+  };
+
+  const handoffBlockers = getHandoffBlockers(activeProject);
+  const schedule = getSchedule(activeProject);
+  const overdueCount = countOverdueItems(activeProject);
+
+  const myItems = myEmail
+    ? categories.flatMap(category =>
+        category.items
+          .filter(item => getAssignees(activeProject?.assignments, item.id).includes(myEmail))
+          .map(item => ({ category, item }))
+      )
+    : [];
+
+  const showItem = (categoryId: string, itemId: string) => {
+    setShowMyItems(false);
+    setActiveTab(categoryId);
+    setExpandedItemId(itemId);
   };
 
+  const showBlocker = ({ category, item }: HandoffBlocker) => showItem(category.id, item.id);
+
+  const allItems = categories.flatMap(cat => cat.items);
+  const countByStatus = (status: ItemStatus) => allItems.filter(item => getItemStatus(checklists, item.id) === status).length;
+
   const exportChecklist = () => {
     const data = {
       user: user?.name,
       email: user?.email,
+      project: activeProject?.name,
+      figmaFile: activeProject?.figma?.url ?? null,
       exportDate: new Date().toISOString(),
       totalProgress: getTotalProgress(),
+      members: members.map(member => ({ email: member.email, name: member.name, role: member.role })),
+      priorityWeights: getPriorityWeights(activeProject),
+      targetHandoffDate: schedule.targetHandoffDate ?? null,
+      readyForHandoff: handoffBlockers.length === 0,
+      handoffBlockers: handoffBlockers.map(({ category, item }) => ({ category: category.title, item: item.text })),
+      signOff: getSignOff(activeProject),
       categories: {} as any
     };
 
-    Object.entries(checklistCategories).forEach(([key, category]) => {
-      data.categories[key] = {
+    categories.forEach(category => {
+      data.categories[category.id] = {
         title: category.title,
+        dueDate: schedule.categories[category.id] ?? null,
         progress: getProgress(category.items),
-        items: category.items.map(item => ({
-          text: item.text,
-          completed: !!checklists[item.id],
-          priority: item.priority
-        }))
+        items: category.items.map(item => {
+          const details = getItemDetails(activeProject, item.id);
+          return {
+            text: item.text,
+            status: getItemStatus(checklists, item.id),
+            completed: getItemStatus(checklists, item.id) === 'done',
+            priority: item.priority,
+            assignees: getAssignees(activeProject?.assignments, item.id),
+            dueDate: getItemDueDate(activeProject, category.id, item.id),
+            note: details?.note ?? '',
+            links: details?.links.map(link => ({ label: link.label, url: link.url })) ?? [],
+            evidence: details?.evidence.map(e => ({ name: e.name, addedAt: e.addedAt, dataUrl: e.dataUrl })) ?? []
+          };
+        })
       };
     });
 
@@ -175,23 +337,153 @@ export default function ChecklistApp() {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `design-checklist-${new Date().toISOString().split('T')[0]}.json`;
+    const projectSlug = (activeProject?.name ?? 'project').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    a.download = `design-checklist-${projectSlug}-${new Date().toISOString().split('T')[0]}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case 'high':
-        return 'text-red-600 dark:text-red-400 border-red-200 dark:border-red-800';
-      case 'medium':
-        return 'text-yellow-600 dark:text-yellow-400 border-yellow-200 dark:border-yellow-800';
-      case 'low':
-        return 'text-green-600 dark:text-green-400 border-green-200 dark:border-green-800';
+  const projectEvidenceBytes = getProjectEvidenceSize(activeProject);
+
+  const renderItemRow = (item: ChecklistItem, categoryId: string, index: number) => {
+    // The sign-off item is completed by approvals, so its row gets the sign-off panel instead of a free status choice
+    const isSignOffItem = item.id === SIGN_OFF_ITEM_ID && !!activeProject;
+    const signOff = getSignOff(activeProject);
+    const itemComments = comments.comments.filter(comment => comment.itemId === item.id);
+    const unreadComments = countUnread(comments.comments, [item.id], comments.lastRead, myEmail);
+    const figmaNodes = getItemDetails(activeProject, item.id)?.figmaNodes ?? [];
+    // Audits of a file the project has since been relinked from are ignored
+    const figmaAudit = activeProject?.figmaAudit?.fileId === activeProject?.figma?.fileId ? activeProject?.figmaAudit : undefined;
+    const auditCheck = figmaAudit?.checks.find(check => check.itemId === item.id);
+
+    return (
+      <ChecklistItemRow
+        key={item.id}
+        item={item}
+        index={index}
+        status={getItemStatus(checklists, item.id)}
+        details={getItemDetails(activeProject, item.id)}
+        projectEvidenceBytes={projectEvidenceBytes}
+        members={members}
+        assignees={getAssignees(activeProject?.assignments, item.id)}
+        dueDate={schedule.items[item.id] ?? null}
+        categoryDueDate={schedule.categories[categoryId] ?? null}
+        overdue={isOverdue(getItemDueDate(activeProject, categoryId, item.id), getItemStatus(checklists, item.id))}
+        expanded={expandedItemId === item.id}
+        onStatusChange={(status) => setItemStatus(item.id, status)}
+        onAssigneesChange={(emails) => setAssignees(item.id, emails)}
+        onDueDateChange={(dateKey) => setDueDate('items', item.id, dateKey)}
+        onToggleExpanded={() => setExpandedItemId(prev => (prev === item.id ? null : item.id))}
+        onDetailsChange={(changes) => updateItemDetails(item.id, changes)}
+        statusOptions={isSignOffItem ? MANUAL_SIGN_OFF_STATUSES : undefined}
+        statusLocked={isSignOffItem && !!signOff}
+        indicator={
+          <>
+            {isSignOffItem && signOff && (
+              <Badge variant="outline" className="text-xs">{countApprovals(signOff)}/{signOff.reviews.length} approved</Badge>
+            )}
+            {itemComments.length > 0 && (
+              <span
+                className={`flex items-center gap-0.5 text-xs ${unreadComments > 0 ? 'text-blue-600 dark:text-blue-400' : 'text-muted-foreground'}`}
+                title={unreadComments > 0 ? `${unreadComments} unread` : undefined}
+              >
+                <MessageSquare className="w-3 h-3" />{itemComments.length}
+              </span>
+            )}
+            {figmaNodes.length > 0 && (
+              <a
+                href={getSafeHref(figmaNodes[0].url)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-0.5 text-xs text-muted-foreground hover:text-foreground"
+                title={`Open ${figmaNodes[0].name ?? 'the linked frame'} in Figma`}
+              >
+                <Figma className="w-3 h-3" />{figmaNodes.length > 1 && figmaNodes.length}
+              </a>
+            )}
+            {auditCheck && auditCheck.findingCount > 0 && (
+              <span className="flex items-center gap-0.5 text-xs text-amber-600 dark:text-amber-400" title="Figma audit findings">
+                <FileSearch className="w-3 h-3" />{auditCheck.findingCount}
+              </span>
+            )}
+          </>
+        }
+      >
+        {activeProject?.figma && (
+          <FigmaNodeLinks
+            file={activeProject.figma}
+            links={figmaNodes}
+            onChange={(links) => updateItemDetails(item.id, { figmaNodes: links })}
+          />
+        )}
+        {figmaAudit && auditCheck && (
+          <FigmaAuditFindings
+            audit={figmaAudit}
+            check={auditCheck}
+            status={getItemStatus(checklists, item.id)}
+            onApplyStatus={(status) => setItemStatus(item.id, status)}
+          />
+        )}
+        {isSignOffItem && activeProject && (
+          <SignOffPanel
+            project={activeProject}
+            members={members}
+            currentEmail={myEmail}
+            canManage={isProjectOwner(activeProject, user?.id)}
+            disabled={isDemo}
+            onChange={applySignOff}
+          />
+        )}
+        {comments.available && (
+          <ItemComments
+            threads={getThreads(comments.comments, item.id)}
+            members={members}
+            myEmail={myEmail}
+            canModerate={!!activeProject && isProjectOwner(activeProject, user?.id)}
+            onAdd={(body, mentions, parentId) => comments.addComment(item.id, body, mentions, parentId)}
+            onResolve={comments.setResolved}
+            onDelete={comments.deleteComment}
+            onRead={() => comments.markRead(item.id)}
+          />
+        )}
+        {activity.available && (
+          <ItemHistory
+            entries={activity.entries.filter(entry => entry.itemId === item.id)}
+            isLoading={activity.isLoading}
+            onLoad={activity.refresh}
+          />
+        )}
+      </ChecklistItemRow>
+    );
+  };
+
+  const getSyncBadgeText = (status: SyncStatus) => {
+    switch (status) {
+      case 'syncing':
+        return 'Syncing...';
+      case 'synced':
+        return 'Cloud Sync Enabled';
+      case 'error':
+        return 'Cloud Sync Failed';
+      case 'offline':
+        return isDemo ? 'Demo Mode - Local Storage' : 'Local Storage Only';
+      default:
+        return 'Not Synced';
+    }
+  };
+
+  const getSyncBadgeColor = (status: SyncStatus) => {
+    switch (status) {
+      case 'synced':
+        return 'bg-green-50 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800';
+      case 'error':
+        return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
+      case 'offline':
+        return 'bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-950 dark:text-orange-300 dark:border-orange-800';
       default:
-        return 'text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-800';
+        return 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800';
     }
   };
 
@@ -206,6 +498,30 @@ export default function ChecklistApp() {
               Welcome back, {user?.given_name || 'User'}! Track your design delivery progress with our comprehensive professional checklist.
             </p>
           </div>
+
+          <ProjectSwitcher
+            projects={workspace.projects}
+            templates={templates}
+            activeProjectId={workspace.activeProjectId}
+            getProjectProgress={getTotalProgress}
+            onSelect={(projectKey) => setWorkspace(prev => ({ ...prev, activeProjectId: projectKey }))}
+            onCreate={handleCreateProject}
+            onRename={(projectKey, name) => setWorkspace(prev => updateProject(prev, projectKey, { name }))}
+            onDuplicate={handleDuplicateProject}
+            onArchive={handleArchiveProject}
+            onDelete={handleDeleteProject}
+          />
+
+          {activeProject?.figma && (
+            <div>
+              <LinkedFigmaFile
+                file={activeProject.figma}
+                audit={activeProject.figmaAudit}
+                onUpdate={(figma) => setWorkspace(prev => updateProject(prev, getProjectKey(activeProject), { figma }))}
+                onAudit={(figmaAudit) => setWorkspace(prev => updateProject(prev, getProjectKey(activeProject), { figmaAudit }))}
+              />
+            </div>
+          )}
           
           {/* Overall Progress Card */}
           <Card className="max-w-md mx-auto">
@@ -215,15 +531,65 @@ export default function ChecklistApp() {
                   <span className="text-sm">Overall Progress</span>
                   <div className="flex items-center gap-2">
                     <span className="text-2xl">{getTotalProgress()}%</span>
-                    {saveStatus === 'saving' && <Loader2 className="w-4 h-4 animate-spin text-blue-500" />}
-                    {saveStatus === 'saved' && <Check className="w-4 h-4 text-green-500" />}
+                    {syncStatus === 'syncing' && <Loader2 className="w-4 h-4 animate-spin text-blue-500" />}
+                    {syncStatus === 'synced' && <Check className="w-4 h-4 text-green-500" />}
                   </div>
                 </div>
                 <Progress value={getTotalProgress()} className="h-3" />
+                {activeProject && (
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Weighted by priority (high/medium/low)</span>
+                    <PriorityWeightsEditor
+                      weights={getPriorityWeights(activeProject)}
+                      onChange={(priorityWeights) => setWorkspace(prev => updateProject(prev, getProjectKey(activeProject), { priorityWeights }))}
+                    />
+                  </div>
+                )}
                 <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>{Object.values(checklistCategories).flatMap(cat => cat.items).filter(item => checklists[item.id]).length} completed</span>
-                  <span>{Object.values(checklistCategories).flatMap(cat => cat.items).length} total</span>
+                  <span>
+                    {countByStatus('done')} completed
+                    {countByStatus('in_progress') > 0 && `, ${countByStatus('in_progress')} in progress`}
+                  </span>
+                  <span>
+                    {allItems.length - countByStatus('na')} total
+                    {countByStatus('na') > 0 && ` (${countByStatus('na')} N/A)`}
+                  </span>
                 </div>
+                {activeProject && (
+                  <div className="flex items-center justify-between text-xs pt-2 border-t">
+                    <span
+                      className={`flex items-center gap-1 ${
+                        schedule.targetHandoffDate && daysUntil(schedule.targetHandoffDate) < 0 && handoffBlockers.length > 0
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-muted-foreground'
+                      }`}
+                    >
+                      <Clock className="w-3 h-3" />
+                      {schedule.targetHandoffDate ? describeCountdown(schedule.targetHandoffDate) : 'No target handoff date'}
+                      {overdueCount > 0 && (
+                        <Badge variant="outline" className="ml-1 border-red-200 text-red-700 dark:border-red-800 dark:text-red-300">
+                          {overdueCount} overdue
+                        </Badge>
+                      )}
+                    </span>
+                    <DueDatePicker
+                      value={schedule.targetHandoffDate ?? null}
+                      onChange={setTargetHandoffDate}
+                      label="Target handoff date"
+                    />
+                  </div>
+                )}
+                {activeProject && (
+                  <div className="pt-2 border-t">
+                    <HandoffReadiness blockers={handoffBlockers} onSelectBlocker={showBlocker} />
+                  </div>
+                )}
+                {activeProject && (
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>Created {new Date(activeProject.createdAt).toLocaleDateString()}</span>
+                    <span>Updated {new Date(activeProject.updatedAt).toLocaleString()}</span>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -239,54 +605,168 @@ export default function ChecklistApp() {
             <FileDown className="w-4 h-4" />
             Export Progress
           </Button>
-          <Badge 
-            variant="outline"
-            className={isDemo 
-              ? 'bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-950 dark:text-orange-300 dark:border-orange-800' 
-              : 'bg-green-50 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800'
-            }
-          >
-            <Database className="w-3 h-3 mr-1" />
-            {isDemo ? 'Demo Mode - Local Storage' : 'Cloud Sync Enabled'}
+          <TemplateEditor
+            templates={templates}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+          />
+          {activeProject && (
+            <ProjectMembers
+              projectName={activeProject.name}
+              members={members}
+              canManage={isProjectOwner(activeProject, user?.id)}
+              onAdd={(member) => updateMembers(current => [...current, member])}
+              onRemove={handleRemoveMember}
+            />
+          )}
+          {activeProject && <ShareProjectDialog project={activeProject} disabled={isDemo} />}
+          {activeProject && activity.available && (
+            <ActivityTimeline
+              project={activeProject}
+              entries={activity.entries}
+              isLoading={activity.isLoading}
+              error={activity.error}
+              onOpen={activity.refresh}
+              onSelectItem={showItem}
+            />
+          )}
+          {activeProject && snapshots.available && (
+            <SnapshotsDialog
+              project={activeProject}
+              snapshots={snapshots.snapshots}
+              isLoading={snapshots.isLoading}
+              error={snapshots.error}
+              myEmail={myEmail ?? ''}
+              isOwner={isProjectOwner(activeProject, user?.id)}
+              onOpen={snapshots.refresh}
+              onCreate={snapshots.create}
+              onLoad={snapshots.load}
+              onRestore={restoreSnapshot}
+              onDelete={snapshots.remove}
+            />
+          )}
+          <LivePresence connected={live.connected} viewers={live.viewers} categories={categories} />
+          <Badge variant="outline" className={getSyncBadgeColor(syncStatus)}>
+            {syncStatus === 'error' ? <AlertCircle className="w-3 h-3 mr-1" /> : <Database className="w-3 h-3 mr-1" />}
+            {getSyncBadgeText(syncStatus)}
           </Badge>
         </div>
 
+        <div className="max-w-md mx-auto">
+          <CloudStorage
+            data={workspace}
+            onDataLoad={(data) => setWorkspace(ensureActiveProject(data))}
+            onSyncStatusChange={setSyncStatus}
+          />
+        </div>
+
+        <div className="max-w-md mx-auto">
+          <FigmaPlugin templates={templates} onCreateTask={handleCreateFromFigma} />
+        </div>
+
         {/* Category Tabs */}
         <div className="w-full">
           <div className="flex space-x-1 bg-muted p-1 rounded-lg">
-            {Object.entries(checklistCategories).map(([key, category]) => {
-              const IconComponent = category.icon;
+            {categories.map(category => {
+              const IconComponent = getCategoryIcon(category.icon);
+              const unread = countUnread(comments.comments, category.items.map(item => item.id), comments.lastRead, myEmail);
+              const tabViewers = live.viewers.filter(viewer => viewer.tab === category.id);
               return (
                 <Button
-                  key={key}
-                  variant={activeTab === key ? 'default' : 'ghost'}
+                  key={category.id}
+                  variant={!showMyItems && activeTab === category.id ? 'default' : 'ghost'}
                   size="sm"
-                  onClick={() => setActiveTab(key)}
+                  onClick={() => {
+                    setShowMyItems(false);
+                    setActiveTab(category.id);
+                  }}
                   className="flex-1 flex items-center gap-2"
                 >
                   <IconComponent className="w-4 h-4" />
                   <span className="hidden sm:inline">{category.title.split(' ')[0]}</span>
+                  {tabViewers.length > 0 && (
+                    <span className="flex -space-x-2" title={tabViewers.map(viewer => viewer.name || viewer.email).join(', ')}>
+                      {tabViewers.slice(0, 3).map(viewer => (
+                        <MemberAvatar key={viewer.clientId} member={viewer} className="w-5 h-5" />
+                      ))}
+                    </span>
+                  )}
+                  {unread > 0 && (
+                    <Badge className="h-5 px-1.5 bg-blue-600 text-white" title={`${unread} unread comments`}>{unread}</Badge>
+                  )}
                 </Button>
               );
             })}
+            <Button
+              variant={showMyItems ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setShowMyItems(true)}
+              className="flex items-center gap-2"
+              title="Items assigned to you in every category"
+            >
+              <UserCheck className="w-4 h-4" />
+              <span className="hidden sm:inline">My items</span>
+              <Badge variant="secondary" className="h-5 px-1.5">{myItems.length}</Badge>
+            </Button>
           </div>
 
           {/* Tab Content */}
           <div className="mt-4">
-            {Object.entries(checklistCategories).map(([key, category]) => {
-              if (activeTab !== key) return null;
+            {showMyItems && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <UserCheck className="w-6 h-6" />
+                    My items
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">Items assigned to you across all categories.</p>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {myItems.length === 0 && (
+                      <p className="text-sm text-muted-foreground text-center py-6">Nothing is assigned to you in this project.</p>
+                    )}
+                    {myItems.map(({ category, item }) => (
+                      <div key={item.id} className="space-y-1">
+                        <p className="text-xs text-muted-foreground">{category.title}</p>
+                        {renderItemRow(item, category.id, category.items.indexOf(item))}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            {categories.map(category => {
+              if (showMyItems || activeTab !== category.id) return null;
               
               const progress = getProgress(category.items);
+              const IconComponent = getCategoryIcon(category.icon);
+              const categoryOverdue = category.items.filter(item =>
+                isOverdue(getItemDueDate(activeProject, category.id, item.id), getItemStatus(checklists, item.id))
+              ).length;
               return (
-                <Card key={key}>
+                <Card key={category.id}>
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <div className="space-y-1">
                         <CardTitle className="flex items-center gap-2">
-                          <category.icon className="w-6 h-6" />
+                          <IconComponent className="w-6 h-6" />
                           {category.title}
                         </CardTitle>
                         <p className="text-sm text-muted-foreground">{category.description}</p>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <span>Category due</span>
+                          <DueDatePicker
+                            value={schedule.categories[category.id] ?? null}
+                            onChange={(dateKey) => setDueDate('categories', category.id, dateKey)}
+                            label="Category due date"
+                          />
+                          {categoryOverdue > 0 && (
+                            <Badge variant="outline" className="border-red-200 text-red-700 dark:border-red-800 dark:text-red-300">
+                              {categoryOverdue} overdue
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                       <div className="text-right space-y-1">
                         <Badge variant={progress === 100 ? 'default' : 'secondary'}>
@@ -298,40 +778,7 @@ export default function ChecklistApp() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
-                      {category.items.map((item, index) => (
-                        <div
-                          key={item.id}
-                          className={`flex items-start space-x-3 p-4 rounded-lg border bg-card transition-all ${
-                            checklists[item.id] 
-                              ? 'bg-green-50 border-green-200 dark:bg-green-950 dark:border-green-800' 
-                              : 'hover:bg-muted/30'
-                          }`}
-                        >
-                          <Checkbox
-                            checked={!!checklists[item.id]}
-                            onCheckedChange={() => toggleItem(item.id)}
-                            className="mt-0.5"
-                          />
-                          <div className="flex-1 space-y-1">
-                            <div className="flex items-start justify-between gap-2">
-                              <span
-                                className={`text-sm ${
-                                  checklists[item.id] ? 'line-through text-muted-foreground' : ''
-                                }`}
-                              >
-                                {index + 1}. {item.text}
-                              </span>
-                              <div className="flex items-center gap-1">
-                                <span
-                                  className={`text-xs px-2 py-1 rounded-full border ${getPriorityColor(item.priority)}`}
-                                >
-                                  {item.priority.toUpperCase()}
-                                </span>
-                              </div>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
+                      {category.items.map((item, index) => renderItemRow(item, category.id, index))}
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,143 @@
+import { ReactNode } from 'react';
+import { Button } from './ui/button';
+import StatusPicker from './StatusPicker';
+import { ChevronDown, ChevronRight, StickyNote, Link2, Image } from 'lucide-react';
+import ItemDetailsPanel from './ItemDetailsPanel';
+import AssigneePicker from './AssigneePicker';
+import DueDatePicker from './DueDatePicker';
+import { ChecklistItem, ItemDetails, ItemStatus, ProjectMember } from './checklist/types';
+
+interface ChecklistItemRowProps {
+  item: ChecklistItem;
+  index: number;
+  status: ItemStatus;
+  details: ItemDetails | null;
+  projectEvidenceBytes: number;
+  members: ProjectMember[];
+  assignees: string[];
+  dueDate: string | null;
+  categoryDueDate: string | null;
+  overdue: boolean;
+  expanded: boolean;
+  onStatusChange: (status: ItemStatus) => void;
+  onAssigneesChange: (assignees: string[]) => void;
+  onDueDateChange: (dateKey: string | null) => void;
+  onToggleExpanded: () => void;
+  onDetailsChange: (changes: Partial<ItemDetails>) => void;
+  // For items whose status is driven by something else, such as stakeholder sign-off
+  statusOptions?: ItemStatus[];
+  statusLocked?: boolean;
+  indicator?: ReactNode;
+  children?: ReactNode;
+}
+
+const ROW_COLORS: Record<ItemStatus, string> = {
+  todo: 'hover:bg-muted/30',
+  in_progress: 'bg-blue-50 border-blue-200 dark:bg-blue-950 dark:border-blue-800',
+  done: 'bg-green-50 border-green-200 dark:bg-green-950 dark:border-green-800',
+  na: 'bg-muted/40 opacity-70'
+};
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'high':
+      return 'text-red-600 dark:text-red-400 border-red-200 dark:border-red-800';
+    case 'medium':
+      return 'text-yellow-600 dark:text-yellow-400 border-yellow-200 dark:border-yellow-800';
+    case 'low':
+      return 'text-green-600 dark:text-green-400 border-green-200 dark:border-green-800';
+    default:
+      return 'text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-800';
+  }
+};
+
+export default function ChecklistItemRow({
+  item,
+  index,
+  status,
+  details,
+  projectEvidenceBytes,
+  members,
+  assignees,
+  dueDate,
+  categoryDueDate,
+  overdue,
+  expanded,
+  onStatusChange,
+  onAssigneesChange,
+  onDueDateChange,
+  onToggleExpanded,
+  onDetailsChange,
+  statusOptions,
+  statusLocked = false,
+  indicator,
+  children
+}: ChecklistItemRowProps) {
+  const hasNote = !!details?.note.trim();
+  const linkCount = details?.links.length ?? 0;
+  const evidenceCount = details?.evidence.length ?? 0;
+
+  return (
+    <div
+      className={`p-4 rounded-lg border bg-card transition-all ${ROW_COLORS[status]} ${
+        overdue ? 'border-red-300 dark:border-red-800 border-l-4' : ''
+      }`}
+    >
+      <div className="flex items-start space-x-3">
+        <StatusPicker status={status} onChange={onStatusChange} options={statusOptions} disabled={statusLocked} />
+        <div className="flex-1 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <span
+              className={`text-sm ${
+                status === 'done' || status === 'na' ? 'line-through text-muted-foreground' : ''
+              }`}
+            >
+              {index + 1}. {item.text}
+            </span>
+            <div className="flex items-center gap-1">
+              {indicator}
+              {hasNote && <StickyNote className="w-3 h-3 text-muted-foreground" />}
+              {linkCount > 0 && (
+                <span className="flex items-center gap-0.5 text-xs text-muted-foreground">
+                  <Link2 className="w-3 h-3" />{linkCount}
+                </span>
+              )}
+              {evidenceCount > 0 && (
+                <span className="flex items-center gap-0.5 text-xs text-muted-foreground">
+                  <Image className="w-3 h-3" />{evidenceCount}
+                </span>
+              )}
+              <DueDatePicker
+                value={dueDate}
+                inheritedValue={categoryDueDate}
+                overdue={overdue}
+                onChange={onDueDateChange}
+              />
+              <AssigneePicker members={members} assignees={assignees} onChange={onAssigneesChange} />
+              <span
+                className={`text-xs px-2 py-1 rounded-full border ${getPriorityColor(item.priority)}`}
+              >
+                {item.priority.toUpperCase()}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                title={expanded ? 'Hide details' : 'Notes, links, evidence and comments'}
+                onClick={onToggleExpanded}
+              >
+                {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+      {expanded && (
+        <div className="mt-3 ml-7 space-y-4">
+          {children}
+          <ItemDetailsPanel details={details} projectEvidenceBytes={projectEvidenceBytes} onChange={onDetailsChange} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -8,51 +8,135 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Cloud, CloudOff, Download, Upload, Settings, CheckCircle, AlertCircle, Loader2, Plus } from 'lucide-react';
 import { useAuth } from './AuthContext';
 import CloudEndpointSetup from './CloudEndpointSetup';
+import { Project, ProjectWorkspace } from './checklist/types';
+import { ensureActiveProject, getProjectKey, migrateProject, parseProjectKey, withLocalOwner } from './checklist/projects';
+import { ConflictChoice, mergeProject, resolveConflicts } from './checklist/merge';
+import ConflictDialog, { PendingConflict } from './ConflictDialog';
+import { loadLocalWorkspace, saveLocalWorkspace, storageKey } from './checklist/storage';
+import { ENDPOINT_STORAGE_KEY, getCloudEndpoint, useAuthorizedFetch } from './checklist/api';
+import { REALTIME_URL_STORAGE_KEY } from './checklist/realtime';
+import { createProjectSnapshot } from './checklist/snapshots';
+import {
+  enqueueOperation,
+  getQueuedOperations,
+  latestQueuedStates,
+  removeOperation,
+  removeProjectOperations
+} from './checklist/syncQueue';
 
 export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error' | 'offline';
 
+// fetch rejects with a TypeError when the request never reached the server
+const isNetworkError = (err: unknown) => err instanceof TypeError || !navigator.onLine;
+
 interface CloudStorageProps {
-  data: any;
-  onDataLoad: (data: any) => void;
+  data: ProjectWorkspace;
+  onDataLoad: (data: ProjectWorkspace) => void;
   onSyncStatusChange?: (status: SyncStatus) => void;
 }
 
+interface SyncedProject {
+  revision: number;
+  project: Project;
+}
+
+interface CloudProjects {
+  projects: Project[];
+  revisions?: Record<string, number>;
+}
+
+type SaveResult =
+  | { status: 'saved'; revision: number | null }
+  | { status: 'conflict'; revision: number | null; remote: Project | null }
+  | { status: 'forbidden' };
+
 interface StorageConfig {
   endpoint: string;
   autoSync: boolean;
+  realtimeUrl: string;
 }
 
 export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: CloudStorageProps) {
   const { user, isAuthenticated, isDemo } = useAuth();
+  const authorizedFetch = useAuthorizedFetch();
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('offline');
   const [isConfigDialogOpen, setIsConfigDialogOpen] = useState(false);
   const [config, setConfig] = useState<StorageConfig>({
-    endpoint: localStorage.getItem('checklist-endpoint') || '',
-    autoSync: localStorage.getItem('checklist-auto-sync') !== 'false' // Default to true
+    endpoint: getCloudEndpoint(),
+    autoSync: localStorage.getItem('checklist-auto-sync') !== 'false', // Default to true
+    realtimeUrl: localStorage.getItem(REALTIME_URL_STORAGE_KEY) || ''
   });
   const [lastSync, setLastSync] = useState<Date | null>(null);
   const [error, setError] = useState<string | null>(null);
-
-  // Auto-sync when data changes (only if authenticated)
+  // Kept apart from sync errors: it clears as soon as a local save works again
+  const [localSaveError, setLocalSaveError] = useState<string | null>(null);
+  const [pendingConflicts, setPendingConflicts] = useState<PendingConflict[]>([]);
+  const [queueLength, setQueueLength] = useState(0);
+  // Nothing is written back until the stored workspace has been handed to the parent,
+  // otherwise the parent's empty initial state would overwrite it
+  const hasLoaded = useRef(false);
+  const latestData = useRef(data);
+  latestData.current = data;
+  // Projects waiting on the conflict dialog are not pushed, so the other device's changes survive
+  const conflictedKeys = useRef(new Set<string>());
+  conflictedKeys.current = new Set(pendingConflicts.map(conflict => conflict.projectKey));
+  // A sync requested while one is running is run again once it finishes
+  const syncInFlight = useRef(false);
+  const syncRequested = useRef(false);
+  const handleSyncRef = useRef<() => Promise<void>>(async () => {});
+
+  // Persist locally on every change, queue it for the cloud, and sync when auto-sync is on
   useEffect(() => {
-    if (config.autoSync && data && Object.keys(data).length > 0 && isAuthenticated) {
-      const syncTimeout = setTimeout(() => {
-        handleSync();
-      }, 2000); // Debounce auto-sync
-      
-      return () => clearTimeout(syncTimeout);
+    if (!hasLoaded.current || !isAuthenticated || !data || data.projects.length === 0) return;
+
+    const localTimeout = setTimeout(() => {
+      saveToLocal(data);
+      if (config.endpoint) recordChanges(data);
+    }, 500);
+    if (!config.autoSync || !config.endpoint) {
+      return () => clearTimeout(localTimeout);
     }
-  }, [data, config.autoSync, isAuthenticated]);
+
+    const syncTimeout = setTimeout(() => {
+      handleSync();
+    }, 2000); // Debounce auto-sync
+
+    return () => {
+      clearTimeout(localTimeout);
+      clearTimeout(syncTimeout);
+    };
+  }, [data, config.autoSync, config.endpoint, isAuthenticated]);
 
   // Load data on mount
   useEffect(() => {
-    if (isAuthenticated) {
-      loadFromLocal();
-      if (config.endpoint && user) {
-        loadFromCloud();
+    hasLoaded.current = false;
+    if (isAuthenticated && user) {
+      const localData = loadFromLocal();
+      if (config.endpoint && localData) {
+        handleCloudLoad(localData);
+      } else {
+        updateSyncStatus('offline');
       }
     }
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, user?.id]);
+
+  // Replay queued operations as soon as the browser is back online
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+    refreshQueueLength();
+
+    const handleOnline = () => {
+      if (config.autoSync && config.endpoint) handleSyncRef.current();
+    };
+    const handleOffline = () => updateSyncStatus('offline');
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isAuthenticated, user?.id, config.autoSync, config.endpoint]);
 
   // Notify parent of sync status changes
   useEffect(() => {
@@ -67,96 +151,202 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
     }
   };
 
-  const getStorageKey = (suffix: string) => {
-    return user ? `checklist-${user.id}-${suffix}` : `checklist-${suffix}`;
-  };
+  const getStorageKey = (suffix: string) => storageKey(user?.id, suffix);
 
-  const saveToLocal = (data: any) => {
+  // Usually the browser's storage quota; edits that don't reach local storage are lost on reload
+  const saveToLocal = (data: ProjectWorkspace) => {
     try {
-      const storageKey = getStorageKey('data');
-      const timestampKey = getStorageKey('last-modified');
-      
-      localStorage.setItem(storageKey, JSON.stringify(data));
-      localStorage.setItem(timestampKey, new Date().toISOString());
+      saveLocalWorkspace(user?.id, data);
+      setLocalSaveError(null);
     } catch (err) {
       console.error('Failed to save to local storage:', err);
+      setLocalSaveError(err instanceof DOMException && err.name === 'QuotaExceededError'
+        ? 'Changes could not be saved on this device: browser storage is full. Remove screenshots or export a backup before reloading.'
+        : 'Changes could not be saved on this device. Export a backup before reloading.');
     }
   };
 
-  const loadFromLocal = () => {
+  const loadFromLocal = (): ProjectWorkspace | null => {
+    if (!user) return null;
     try {
-      const storageKey = getStorageKey('data');
-      const savedData = localStorage.getItem(storageKey);
-      
-      if (savedData) {
-        const parsedData = JSON.parse(savedData);
-        onDataLoad(parsedData);
-      }
+      const localData = loadLocalWorkspace(user.id);
+      latestData.current = localData;
+      hasLoaded.current = true;
+      onDataLoad(localData);
+      return localData;
     } catch (err) {
       console.error('Failed to load from local storage:', err);
+      return null;
     }
   };
 
-  const saveToCloud = async (data: any): Promise<boolean> => {
-    if (!config.endpoint || !user) {
-      throw new Error('Cloud storage not configured or user not authenticated');
+  // The revision and content of each project as last agreed with the server, by project key. The content
+  // is the common ancestor for three-way merges; the revision is sent back as baseRevision.
+  const getSyncedProjects = (): Record<string, SyncedProject> => {
+    try {
+      const stored: Record<string, SyncedProject> = JSON.parse(localStorage.getItem(getStorageKey('synced-projects')) || '{}');
+      // Re-keyed on the way in: entries saved before projects were keyed by owner are under the bare id
+      const synced: Record<string, SyncedProject> = {};
+      Object.values(stored).forEach(entry => {
+        const project = withLocalOwner(migrateProject(entry.project), user?.id);
+        synced[getProjectKey(project)] = { ...entry, project };
+      });
+      return synced;
+    } catch {
+      return {};
     }
+  };
 
-    try {
-      const accessToken = localStorage.getItem('google-access-token');
-      if (!accessToken) {
-        throw new Error('No access token available. Please sign in again.');
-      }
+  const setSyncedProjects = (synced: Record<string, SyncedProject>) => {
+    localStorage.setItem(getStorageKey('synced-projects'), JSON.stringify(synced));
+  };
 
-      const response = await fetch(`${config.endpoint}/save`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({
-          userId: user.id,
-          userEmail: user.email,
-          data: data,
-          timestamp: new Date().toISOString()
-        })
-      });
+  const refreshQueueLength = async () => {
+    if (!user) return;
+    try {
+      setQueueLength((await getQueuedOperations(user.id)).length);
+    } catch (err) {
+      console.error('Failed to read the sync queue:', err);
+    }
+  };
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication expired. Please sign out and sign in again.');
+  // Appends an operation for every project that differs from its last queued or synced state
+  const recordChanges = async (workspace: ProjectWorkspace) => {
+    if (!user) return;
+    try {
+      const synced = getSyncedProjects();
+      const queued = latestQueuedStates(await getQueuedOperations(user.id));
+      const lastKnown = (projectKey: string) =>
+        queued.has(projectKey) ? queued.get(projectKey) ?? null : synced[projectKey]?.project ?? null;
+
+      for (const project of workspace.projects) {
+        const projectKey = getProjectKey(project);
+        if (lastKnown(projectKey)?.updatedAt !== project.updatedAt) {
+          await enqueueOperation(user.id, projectKey, project);
         }
-        throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      return true;
+      const currentKeys = new Set(workspace.projects.map(getProjectKey));
+      const knownKeys = new Set([...Object.keys(synced), ...queued.keys()]);
+      for (const projectKey of knownKeys) {
+        if (!currentKeys.has(projectKey) && lastKnown(projectKey) !== null) {
+          await enqueueOperation(user.id, projectKey, null);
+        }
+      }
     } catch (err) {
-      throw err;
+      console.error('Failed to queue changes:', err);
+      setError(`Changes could not be queued for sync: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+    await refreshQueueLength();
+  };
+
+  // Swaps updated projects into the latest workspace and hands it to the parent
+  const applyProjectUpdates = (updates: Project[], removedKeys: string[] = []) => {
+    if (updates.length === 0 && removedKeys.length === 0) return;
+    const byKey = new Map(updates.map(project => [getProjectKey(project), project]));
+    const current = latestData.current;
+    const currentKeys = new Set(current.projects.map(getProjectKey));
+    const next = ensureActiveProject({
+      ...current,
+      projects: [
+        ...current.projects
+          .filter(project => !removedKeys.includes(getProjectKey(project)))
+          .map(project => byKey.get(getProjectKey(project)) ?? project),
+        ...updates.filter(project => !currentKeys.has(getProjectKey(project)))
+      ]
+    });
+    latestData.current = next;
+    onDataLoad(next);
+    saveToLocal(next);
+  };
+
+  // Merges a local project with a newer server copy; clean merges are returned, conflicts are queued
+  const reconcileProject = (local: Project, remote: Project, base: Project | null): Project | null => {
+    const { project, conflicts } = mergeProject(base, local, remote);
+    if (conflicts.length === 0) return project;
+
+    const projectKey = getProjectKey(local);
+    conflictedKeys.current.add(projectKey);
+    setPendingConflicts(prev => [
+      ...prev.filter(conflict => conflict.projectKey !== projectKey),
+      { projectKey, merged: project, conflicts }
+    ]);
+    return null;
+  };
+
+  const handleResolveConflict = async (choices: Record<string, ConflictChoice>) => {
+    const [conflict] = pendingConflicts;
+    if (!conflict) return;
+
+    setPendingConflicts(prev => prev.slice(1));
+    conflictedKeys.current.delete(conflict.projectKey);
+    // Edits queued before the conflict are part of the resolved project, which is queued afresh
+    if (user) await removeProjectOperations(user.id, conflict.projectKey);
+    applyProjectUpdates([resolveConflicts(conflict.merged, conflict.conflicts, choices)]);
+  };
+
+  // Saves one project on top of `baseRevision`; passing null deletes it on the server (or leaves it,
+  // for a project someone else owns). A 409 means another device saved first and comes back as a
+  // conflict with the server copy; a 403 means the user is no longer a member.
+  const saveToCloud = async (
+    projectId: string,
+    project: Project | null,
+    baseRevision: number | null,
+    ownerId?: string
+  ): Promise<SaveResult> => {
+    if (!config.endpoint || !user) {
+      throw new Error('Cloud storage not configured or user not authenticated');
+    }
+
+    const response = await authorizedFetch(`${config.endpoint}/save`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        userId: user.id,
+        userEmail: user.email,
+        projectId,
+        ownerId,
+        data: project,
+        baseRevision,
+        timestamp: new Date().toISOString()
+      })
+    });
+
+    if (response.status === 409) {
+      const result = await response.json();
+      return { status: 'conflict', revision: result.revision, remote: result.data };
+    }
+
+    if (response.status === 403) {
+      return { status: 'forbidden' };
     }
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Authentication failed even after refreshing your Google session.');
+      }
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return { status: 'saved', revision: result.revision };
   };
 
-  const loadFromCloud = async (): Promise<any> => {
+  const loadFromCloud = async (): Promise<CloudProjects | null> => {
     if (!config.endpoint || !user) {
       throw new Error('Cloud storage not configured or user not authenticated');
     }
 
     try {
       updateSyncStatus('syncing');
-      
-      const accessToken = localStorage.getItem('google-access-token');
-      if (!accessToken) {
-        throw new Error('No access token available. Please sign in again.');
-      }
 
-      const response = await fetch(`${config.endpoint}/load?userId=${user.id}`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        }
-      });
+      const response = await authorizedFetch(`${config.endpoint}/load?userId=${user.id}`);
       
       if (!response.ok) {
         if (response.status === 401) {
-          throw new Error('Authentication expired. Please sign out and sign in again.');
+          throw new Error('Authentication failed even after refreshing your Google session.');
         }
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -169,19 +359,26 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
     }
   };
 
+  // Records any unqueued changes, then replays the operation log to `/save` in order
   const handleSync = async () => {
-    if (!data || !isAuthenticated || !user) return;
+    if (!isAuthenticated || !user) return;
+    if (syncInFlight.current) {
+      syncRequested.current = true;
+      return;
+    }
 
+    syncInFlight.current = true;
     try {
       updateSyncStatus('syncing');
       
       // Save to local storage first
-      saveToLocal(data);
+      const workspace = latestData.current;
+      saveToLocal(workspace);
       
       // Try to save to cloud if endpoint is configured
       if (config.endpoint) {
-        await saveToCloud(data);
-        updateSyncStatus('synced');
+        await recordChanges(workspace);
+        updateSyncStatus(await replayQueue() ? 'synced' : 'offline');
       } else {
         updateSyncStatus('offline');
       }
@@ -189,10 +386,94 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
       console.error('Sync failed:', err);
       setError(err instanceof Error ? err.message : 'Sync failed');
       updateSyncStatus('error');
+    } finally {
+      syncInFlight.current = false;
+      await refreshQueueLength();
+      if (syncRequested.current) {
+        syncRequested.current = false;
+        handleSyncRef.current();
+      }
+    }
+  };
+  handleSyncRef.current = handleSync;
+
+  // Sends queued operations oldest first. Returns false if the network dropped, leaving the rest queued.
+  const replayQueue = async (): Promise<boolean> => {
+    if (!user) return false;
+    if (!navigator.onLine) return false;
+
+    const synced = getSyncedProjects();
+    const updates: Project[] = [];
+    const removedKeys: string[] = [];
+    const operations = await getQueuedOperations(user.id);
+    const settled = new Set<string>();
+
+    try {
+      for (const operation of operations) {
+        const { projectKey } = operation;
+        // Conflicted projects wait for the dialog; merged ones are re-queued from the merged state
+        if (conflictedKeys.current.has(projectKey) || settled.has(projectKey)) continue;
+
+        const base = synced[projectKey];
+        const { id: projectId, ownerId } = operation.project ?? base?.project ?? parseProjectKey(projectKey);
+        const result = await saveToCloud(projectId, operation.project, base?.revision ?? null, ownerId);
+
+        if (result.status === 'saved') {
+          if (operation.project) {
+            synced[projectKey] = { revision: result.revision as number, project: operation.project };
+          } else {
+            delete synced[projectKey];
+          }
+          await removeOperation(operation.seq);
+          continue;
+        }
+
+        settled.add(projectKey);
+        await removeProjectOperations(user.id, projectKey);
+        const local = latestData.current.projects.find(p => getProjectKey(p) === projectKey) ?? null;
+
+        if (result.status === 'forbidden') {
+          // Removed from a shared project: it is no longer ours to keep
+          delete synced[projectKey];
+          removedKeys.push(projectKey);
+          continue;
+        }
+
+        const remote = result.remote && withLocalOwner(migrateProject(result.remote), user.id);
+        if (remote && local) {
+          // Merge onto the server copy; the next sync pushes the result with the new base revision
+          synced[projectKey] = { revision: result.revision as number, project: remote };
+          const merged = reconcileProject(local, remote, base?.project ?? null);
+          if (merged) updates.push(merged);
+        } else if (remote) {
+          // Edited on another device after it was deleted here: bring the newer copy back
+          synced[projectKey] = { revision: result.revision as number, project: remote };
+          updates.push(remote);
+        } else {
+          // Deleted on another device while edited here: keep the edits as a new project of our own
+          delete synced[projectKey];
+          if (local) {
+            const copy = { ...local, ownerId: undefined, members: undefined, updatedAt: new Date().toISOString() };
+            updates.push(copy);
+            // A shared project becomes one of ours under a new key; the old entry goes
+            if (getProjectKey(copy) !== projectKey) removedKeys.push(projectKey);
+          }
+        }
+      }
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      console.warn('Sync paused, the network is unavailable:', err);
+      return false;
+    } finally {
+      setSyncedProjects(synced);
+      applyProjectUpdates(updates, removedKeys);
     }
+
+    return true;
   };
 
-  const handleCloudLoad = async () => {
+  const handleCloudLoad = async (base: ProjectWorkspace = latestData.current) => {
+    latestData.current = base;
     if (!isAuthenticated || !user) return;
 
     try {
@@ -200,8 +481,59 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
       const cloudData = await loadFromCloud();
       
       if (cloudData) {
-        onDataLoad(cloudData);
-        saveToLocal(cloudData);
+        const synced = getSyncedProjects();
+        const updates: Project[] = [];
+        const removedKeys: string[] = [];
+        const staleKeys: string[] = [];
+        // The server keys revisions by owner and project id, for the user's own projects too
+        const getRevision = (project: Project) => cloudData.revisions?.[`${project.ownerId ?? user.id}/${project.id}`] ?? 0;
+        const remoteProjects = cloudData.projects.map(project => withLocalOwner(migrateProject(project), user.id));
+        const remoteKeys = new Set(remoteProjects.map(getProjectKey));
+
+        // Deleted on another device: drop it here too unless it has unsynced edits,
+        // in which case the next sync saves it again as a new project
+        base.projects.forEach(local => {
+          const projectKey = getProjectKey(local);
+          const known = synced[projectKey];
+          if (!known || remoteKeys.has(projectKey)) return;
+          if (known.project.updatedAt === local.updatedAt) {
+            removedKeys.push(projectKey);
+          }
+          delete synced[projectKey];
+        });
+
+        remoteProjects.forEach(remote => {
+          const projectKey = getProjectKey(remote);
+          const revision = getRevision(remote);
+          const local = base.projects.find(p => getProjectKey(p) === projectKey);
+          const known = synced[projectKey];
+
+          if (!local) {
+            // Deleted here but not yet synced: the next sync removes it from the server
+            if (!known) {
+              updates.push(remote);
+              synced[projectKey] = { revision, project: remote };
+            }
+            return;
+          }
+
+          if (known && known.revision === revision) return; // server unchanged, keep local edits
+
+          if (known && known.project.updatedAt === local.updatedAt) {
+            updates.push(remote); // unchanged here, take the server copy
+          } else {
+            // Queued edits were made on top of the old revision; the merged project replaces them
+            staleKeys.push(projectKey);
+            const merged = reconcileProject(local, remote, known?.project ?? null);
+            if (merged) updates.push(merged);
+          }
+          synced[projectKey] = { revision, project: remote };
+        });
+
+        await Promise.all(staleKeys.map(projectKey => removeProjectOperations(user.id, projectKey)));
+        setSyncedProjects(synced);
+        applyProjectUpdates(updates, removedKeys);
+        await refreshQueueLength();
         updateSyncStatus('synced');
       } else {
         updateSyncStatus('offline');
@@ -237,15 +569,34 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const importData = JSON.parse(e.target?.result as string);
-        if (importData.data) {
-          onDataLoad(importData.data);
-          saveToLocal(importData.data);
+        if (Array.isArray(importData.data?.projects)) {
+          // The import replaces every local project, so each one is copied to the server first
+          if (config.endpoint && isAuthenticated && !isDemo && latestData.current) {
+            try {
+              await Promise.all(latestData.current.projects.map(project =>
+                createProjectSnapshot(authorizedFetch, config.endpoint, project, 'import')
+              ));
+            } catch (err) {
+              setError(`Import cancelled: could not snapshot your projects first (${err instanceof Error ? err.message : 'unknown error'})`);
+              return;
+            }
+          }
+
+          const workspace = ensureActiveProject({
+            ...importData.data,
+            projects: importData.data.projects.map((project: Project) => withLocalOwner(migrateProject(project), user?.id))
+          });
+          latestData.current = workspace;
+          onDataLoad(workspace);
+          saveToLocal(workspace);
           if (config.autoSync && isAuthenticated) {
             handleSync();
           }
+        } else {
+          setError('Invalid backup file format');
         }
       } catch (err) {
         setError('Invalid backup file format');
@@ -260,7 +611,7 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
   const handleEndpointChange = (endpoint: string) => {
     const newConfig = { ...config, endpoint };
     setConfig(newConfig);
-    localStorage.setItem('checklist-endpoint', endpoint);
+    localStorage.setItem(ENDPOINT_STORAGE_KEY, endpoint);
     
     if (endpoint && user) {
       handleCloudLoad();
@@ -268,8 +619,9 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
   };
 
   const saveConfig = () => {
-    localStorage.setItem('checklist-endpoint', config.endpoint);
+    localStorage.setItem(ENDPOINT_STORAGE_KEY, config.endpoint);
     localStorage.setItem('checklist-auto-sync', config.autoSync.toString());
+    localStorage.setItem(REALTIME_URL_STORAGE_KEY, config.realtimeUrl.trim());
     setIsConfigDialogOpen(false);
     
     if (config.endpoint && user) {
@@ -303,13 +655,14 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
       case 'error':
         return 'Sync failed';
       case 'offline':
-        return config.endpoint ? 'Local storage only' : 'No cloud endpoint';
+        if (!config.endpoint) return 'No cloud endpoint';
+        return queueLength > 0 ? 'Offline, changes queued' : 'Local storage only';
       default:
         return 'Not synced';
     }
   };
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated || !user) {
     return (
       <Card className="border-orange-200 bg-orange-50 dark:bg-orange-950 dark:border-orange-800">
         <CardHeader className="pb-4">
@@ -331,7 +684,7 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
                 variant="outline"
                 size="sm"
                 onClick={handleExport}
-                disabled={!data || Object.keys(data).length === 0}
+                disabled={!data || data.projects.length === 0}
               >
                 <Download className="w-4 h-4 mr-2" />
                 Export
@@ -365,6 +718,7 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
 
   return (
     <Card className="border-slate-200 bg-slate-50 dark:bg-slate-950 dark:border-slate-800">
+      <ConflictDialog conflict={pendingConflicts[0] ?? null} onResolve={handleResolveConflict} />
       <CardHeader className="pb-4">
         <CardTitle className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
           <Cloud className="w-5 h-5" />
@@ -383,6 +737,11 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             {getSyncStatusIcon()}
+            {queueLength > 0 && (
+              <Badge variant="secondary" className="text-xs" title="Changes waiting to be sent to the cloud">
+                {queueLength} queued
+              </Badge>
+            )}
             <span className="text-sm">{getSyncStatusText()}</span>
           </div>
           <div className="flex gap-1">
@@ -438,6 +797,18 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
                       Optional: Enter your backend API endpoint for cloud sync. Leave empty to use local storage only.
                     </p>
                   </div>
+                  <div>
+                    <label className="text-sm">Live Updates Server</label>
+                    <Input
+                      value={config.realtimeUrl}
+                      onChange={(e) => setConfig(prev => ({ ...prev, realtimeUrl: e.target.value }))}
+                      placeholder={import.meta.env.VITE_REALTIME_URL || 'http://localhost:8899'}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Optional: pushes who else is viewing a project and their changes as they happen.
+                      Without it, the cloud endpoint is polled for them. Run <code>npm run dev:realtime</code> for a local server.
+                    </p>
+                  </div>
                   <div className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -470,6 +841,13 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
           </Alert>
         )}
 
+        {localSaveError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{localSaveError}</AlertDescription>
+          </Alert>
+        )}
+
         {!config.endpoint && (
           <Alert>
             <Plus className="h-4 w-4" />
@@ -497,7 +875,7 @@ export default function CloudStorage({ data, onDataLoad, onSyncStatusChange }: C
           <Button
             variant="outline"
             size="sm"
-            onClick={handleCloudLoad}
+            onClick={() => handleCloudLoad()}
             disabled={syncStatus === 'syncing' || !config.endpoint}
           >
             <Download className="w-4 h-4 mr-2" />
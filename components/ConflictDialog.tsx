@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { GitMerge, Laptop, Cloud } from 'lucide-react';
+import { ItemStatus, Project } from './checklist/types';
+import { getStatusLabel } from './checklist/status';
+import { ConflictChoice, ItemConflict } from './checklist/merge';
+
+export interface PendingConflict {
+  projectKey: string;
+  // Result of the automatic merge, with conflicting items still holding the local value
+  merged: Project;
+  conflicts: ItemConflict[];
+}
+
+interface ConflictDialogProps {
+  conflict: PendingConflict | null;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+export default function ConflictDialog({ conflict, onResolve }: ConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const items = conflict.merged.categories.flatMap(category => category.items);
+  const getItemText = (itemId: string) => items.find(item => item.id === itemId)?.text ?? itemId;
+
+  const renderChoice = (itemId: string, choice: ConflictChoice, status: ItemStatus) => {
+    const Icon = choice === 'local' ? Laptop : Cloud;
+    const selected = (choices[itemId] ?? 'local') === choice;
+    return (
+      <Button
+        variant={selected ? 'default' : 'outline'}
+        size="sm"
+        className="gap-2 flex-1"
+        onClick={() => setChoices(prev => ({ ...prev, [itemId]: choice }))}
+      >
+        <Icon className="w-4 h-4" />
+        {choice === 'local' ? 'This device' : 'Other device'}: {getStatusLabel(status)}
+      </Button>
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={() => {}}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Resolve sync conflicts
+          </DialogTitle>
+          <DialogDescription>
+            "{conflict.merged.name}" was changed on another device. Everything else was merged automatically;
+            choose which version to keep for these items.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {conflict.conflicts.map(item => (
+            <div key={item.itemId} className="p-3 rounded-lg border space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-sm">{getItemText(item.itemId)}</span>
+                <Badge variant="secondary">Conflict</Badge>
+              </div>
+              <div className="flex gap-2">
+                {renderChoice(item.itemId, 'local', item.local)}
+                {renderChoice(item.itemId, 'remote', item.remote)}
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => onResolve(choices)}>
+            Apply and sync
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
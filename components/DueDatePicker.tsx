@@ -0,0 +1,50 @@
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { CalendarDays } from 'lucide-react';
+import { formatDateKey, parseDateKey, toDateKey } from './checklist/schedule';
+
+interface DueDatePickerProps {
+  value: string | null;
+  onChange: (dateKey: string | null) => void;
+  // Shown when there is no date of its own, e.g. the category's date on an item
+  inheritedValue?: string | null;
+  overdue?: boolean;
+  label?: string;
+}
+
+export default function DueDatePicker({ value, onChange, inheritedValue = null, overdue = false, label = 'Due date' }: DueDatePickerProps) {
+  const shown = value ?? inheritedValue;
+  const color = overdue
+    ? 'text-red-600 dark:text-red-400'
+    : value
+      ? 'text-foreground'
+      : 'text-muted-foreground';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={`h-7 px-1.5 gap-1 text-xs ${color}`} title={label}>
+          <CalendarDays className="w-4 h-4" />
+          {shown && <span className={value ? '' : 'italic'}>{formatDateKey(shown)}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="single"
+          selected={value ? parseDateKey(value) : undefined}
+          defaultMonth={shown ? parseDateKey(shown) : undefined}
+          onSelect={(date?: Date) => onChange(date ? toDateKey(date) : null)}
+        />
+        <div className="flex items-center justify-between gap-2 p-2 border-t">
+          <span className="text-xs text-muted-foreground">
+            {!value && inheritedValue ? `Inherited: ${formatDateKey(inheritedValue)}` : label}
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => onChange(null)} disabled={!value}>
+            Clear
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
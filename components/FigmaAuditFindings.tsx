@@ -0,0 +1,61 @@
+import { Button } from './ui/button';
+import { FileSearch, ExternalLink } from 'lucide-react';
+import { FigmaAudit, FigmaAuditCheck, ItemStatus } from './checklist/types';
+import { getFigmaNodeUrl } from './checklist/figma';
+import { getStatusLabel } from './checklist/status';
+
+interface FigmaAuditFindingsProps {
+  audit: FigmaAudit;
+  check: FigmaAuditCheck;
+  status: ItemStatus;
+  onApplyStatus: (status: ItemStatus) => void;
+}
+
+// What the last Figma audit found for one item, with each layer linked in the file
+export default function FigmaAuditFindings({ audit, check, status, onApplyStatus }: FigmaAuditFindingsProps) {
+  const { suggestedStatus } = check;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs text-muted-foreground flex items-center gap-1">
+          <FileSearch className="w-3 h-3" />
+          Figma audit, {new Date(audit.ranAt).toLocaleDateString()}
+        </label>
+        {suggestedStatus && suggestedStatus !== status && (
+          <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => onApplyStatus(suggestedStatus)}>
+            Mark {getStatusLabel(suggestedStatus)}
+          </Button>
+        )}
+      </div>
+      <p className="text-xs">
+        {check.checked === 0
+          ? 'Nothing in the file for this check to look at.'
+          : check.findingCount === 0
+            ? `All ${check.checked} checked layers pass.`
+            : `${check.findingCount} of ${check.checked} checked layers need attention.`}
+      </p>
+      {check.findings.length > 0 && (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {check.findings.map(finding => (
+            <li key={finding.nodeId} className="text-xs">
+              <a
+                href={getFigmaNodeUrl(audit.fileId, finding.nodeId)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 hover:underline"
+              >
+                {finding.pageName} / {finding.nodeName}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+              <span className="text-muted-foreground"> — {finding.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {check.findingCount > check.findings.length && (
+        <p className="text-xs text-muted-foreground">and {check.findingCount - check.findings.length} more</p>
+      )}
+    </div>
+  );
+}
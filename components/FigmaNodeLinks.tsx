@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Figma, ExternalLink, Plus, X, Loader2 } from 'lucide-react';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { FigmaFileLink, FigmaNodeLink } from './checklist/types';
+import { createFigmaNodeLink, FigmaNodeSummary, useFigmaApi, validateFigmaNodeUrl } from './checklist/figma';
+import { getSafeHref } from './checklist/itemDetails';
+
+interface FigmaNodeLinksProps {
+  file: FigmaFileLink;
+  links: FigmaNodeLink[];
+  onChange: (links: FigmaNodeLink[]) => void;
+}
+
+// Frames in the project's Figma file that an item is about, with thumbnails rendered by Figma
+export default function FigmaNodeLinks({ file, links, onChange }: FigmaNodeLinksProps) {
+  const figmaApi = useFigmaApi();
+  const [nodeUrl, setNodeUrl] = useState('');
+  const [nodes, setNodes] = useState<Record<string, FigmaNodeSummary>>({});
+  const [canLookUp, setCanLookUp] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!figmaApi.available) return;
+    figmaApi.getConnection()
+      .then(connection => setCanLookUp(connection.connected))
+      .catch(() => setCanLookUp(false));
+  }, [figmaApi.available]);
+
+  // Thumbnail links from Figma expire, so they're fetched each time the item is opened rather than stored
+  const nodeIds = links.map(link => link.nodeId).join(',');
+  useEffect(() => {
+    if (!canLookUp || !nodeIds) return;
+    figmaApi.getNodes(file.fileId, nodeIds.split(','))
+      .then(summaries => setNodes(Object.fromEntries(summaries.map(summary => [summary.nodeId, summary]))))
+      .catch(() => setNodes({}));
+  }, [canLookUp, file.fileId, nodeIds]);
+
+  const addLink = async () => {
+    const result = validateFigmaNodeUrl(nodeUrl, file);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    if (links.some(link => link.nodeId === result.nodeId)) {
+      setError('This frame is already linked');
+      return;
+    }
+
+    // With Figma connected, the node has to exist in the file; without it, the link is taken as given
+    setIsAdding(true);
+    try {
+      let name: string | null = null;
+      if (canLookUp) {
+        const [summary] = await figmaApi.getNodes(file.fileId, [result.nodeId]);
+        if (!summary.name) {
+          setError(`"${file.name}" has no node ${result.nodeId}`);
+          return;
+        }
+        name = summary.name;
+        setNodes(prev => ({ ...prev, [summary.nodeId]: summary }));
+      }
+      onChange([...links, createFigmaNodeLink(file.fileId, result.nodeId, name)]);
+      setNodeUrl('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up the frame in Figma');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs text-muted-foreground flex items-center gap-1">
+        <Figma className="w-3 h-3" />
+        Figma frames
+      </label>
+      {links.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {links.map(link => {
+            const node = nodes[link.nodeId];
+            const name = node?.name ?? link.name ?? link.nodeId;
+            return (
+              <div key={link.id} className="relative group w-40 rounded border overflow-hidden bg-card">
+                <a href={getSafeHref(link.url)} target="_blank" rel="noopener noreferrer" title={`Open ${name} in Figma`}>
+                  {node?.thumbnailUrl ? (
+                    <ImageWithFallback src={node.thumbnailUrl} alt={name} className="w-full h-24 object-cover bg-muted" />
+                  ) : (
+                    <div className="w-full h-24 bg-muted flex items-center justify-center">
+                      <Figma className="w-5 h-5 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="flex items-center gap-1 px-2 py-1 text-xs hover:underline">
+                    <span className="truncate flex-1">{name}</span>
+                    <ExternalLink className="w-3 h-3 shrink-0" />
+                  </div>
+                </a>
+                {node && !node.name && (
+                  <p className="px-2 pb-1 text-xs text-red-600">No longer in the file</p>
+                )}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="absolute top-1 right-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  title="Remove frame"
+                  onClick={() => onChange(links.filter(l => l.id !== link.id))}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={nodeUrl}
+          onChange={(e) => {
+            setNodeUrl(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && nodeUrl.trim() && addLink()}
+          placeholder={`Link to a frame in "${file.name}"`}
+          className="flex-1"
+        />
+        <Button variant="outline" size="sm" onClick={addLink} disabled={!nodeUrl.trim() || isAdding}>
+          {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,64 +1,44 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription } from './ui/alert';
-import { Figma, FileText, Users, Calendar, Link, AlertCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Figma, FileText, Users, Calendar, Link, AlertCircle, KeyRound } from 'lucide-react';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { ChecklistTemplate, FigmaFileLink } from './checklist/types';
+import { createFigmaFileLink, FigmaConnection, FigmaFileSummary, parseFigmaUrl, useFigmaApi } from './checklist/figma';
 
 interface FigmaFileInfo {
   name: string;
   fileId: string;
   url: string;
-  lastModified: Date;
-  collaborators: number;
-  isValid: boolean;
+  // Null when the file was only parsed from its URL (no cloud endpoint to ask Figma)
+  summary: FigmaFileSummary | null;
 }
 
 interface FigmaPluginProps {
-  onCreateTask: (taskName: string, figmaUrl?: string) => void;
+  templates: ChecklistTemplate[];
+  onCreateTask: (taskName: string, figmaUrl: string, options: { file: FigmaFileLink; templateId: string }) => void;
 }
 
-export default function FigmaPlugin({ onCreateTask }: FigmaPluginProps) {
+export default function FigmaPlugin({ templates, onCreateTask }: FigmaPluginProps) {
+  const figmaApi = useFigmaApi();
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
   const [figmaUrl, setFigmaUrl] = useState('');
   const [figmaFile, setFigmaFile] = useState<FigmaFileInfo | null>(null);
+  const [connection, setConnection] = useState<FigmaConnection | null>(null);
+  const [figmaToken, setFigmaToken] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Parse Figma URL and extract file information
-  const parseFigmaUrl = (url: string): FigmaFileInfo | null => {
-    try {
-      // Figma URL patterns:
-      // https://www.figma.com/file/[file-id]/[file-name]
-      // https://www.figma.com/design/[file-id]/[file-name]
-      const figmaUrlRegex = /https:\/\/(?:www\.)?figma\.com\/(?:file|design)\/([a-zA-Z0-9]+)\/([^?/]+)/;
-      const match = url.match(figmaUrlRegex);
-
-      if (!match) {
-        return null;
-      }
-
-      const [, fileId, encodedFileName] = match;
-      
-      // Decode and clean up the file name
-      let fileName = decodeURIComponent(encodedFileName);
-      fileName = fileName.replace(/-/g, ' ').replace(/\?.*$/, ''); // Remove query params and replace hyphens
-      
-      // Capitalize first letter of each word
-      fileName = fileName.replace(/\b\w/g, l => l.toUpperCase());
-
-      return {
-        name: fileName,
-        fileId,
-        url,
-        lastModified: new Date(),
-        collaborators: Math.floor(Math.random() * 5) + 1, // Mock collaborator count
-        isValid: true
-      };
-    } catch (err) {
-      return null;
-    }
-  };
+  useEffect(() => {
+    if (!figmaApi.available) return;
+    figmaApi.getConnection()
+      .then(setConnection)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to check the Figma connection'));
+  }, [figmaApi.available]);
 
   const handleUrlSubmit = async () => {
     if (!figmaUrl.trim()) {
@@ -66,27 +46,46 @@ export default function FigmaPlugin({ onCreateTask }: FigmaPluginProps) {
       return;
     }
 
-    setIsProcessing(true);
-    setError(null);
-
-    // Simulate API processing time
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    const parsed = parseFigmaUrl(figmaUrl);
+    if (!parsed) {
+      setError('Invalid Figma URL. Please enter a valid Figma file or design URL.');
+      return;
+    }
 
-    const parsedFile = parseFigmaUrl(figmaUrl.trim());
+    if (!figmaApi.available || !connection?.connected) {
+      setFigmaFile({ name: parsed.fileName, fileId: parsed.fileId, url: parsed.url, summary: null });
+      return;
+    }
 
-    if (!parsedFile) {
-      setError('Invalid Figma URL. Please enter a valid Figma file or design URL.');
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const summary = await figmaApi.getFile(parsed.fileId);
+      setFigmaFile({ name: summary.name, fileId: parsed.fileId, url: parsed.url, summary });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the Figma file');
+    } finally {
       setIsProcessing(false);
-      return;
     }
+  };
 
-    setFigmaFile(parsedFile);
-    setIsProcessing(false);
+  const handleSaveToken = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      setConnection(await figmaApi.saveToken(figmaToken.trim()));
+      setFigmaToken('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the Figma token');
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const handleCreateTaskFromFigma = () => {
     if (figmaFile) {
-      onCreateTask(figmaFile.name, figmaFile.url);
+      const file = createFigmaFileLink({ fileId: figmaFile.fileId, fileName: figmaFile.name }, figmaFile.summary);
+      onCreateTask(figmaFile.name, figmaFile.url, { file, templateId: templateId || templates[0]?.id });
       // Reset the form after creating task
       setFigmaUrl('');
       setFigmaFile(null);
@@ -100,18 +99,26 @@ export default function FigmaPlugin({ onCreateTask }: FigmaPluginProps) {
     setError(null);
   };
 
-  if (figmaFile && figmaFile.isValid) {
+  if (figmaFile) {
     return (
       <Card className="border-green-200 bg-green-50 dark:bg-green-950 dark:border-green-800">
         <CardHeader className="pb-4">
           <CardTitle className="flex items-center gap-2 text-green-700 dark:text-green-300">
             <Figma className="w-5 h-5" />
             Figma File Ready
-            <Badge variant="secondary" className="ml-auto">Parsed</Badge>
+            <Badge variant="secondary" className="ml-auto">{figmaFile.summary ? 'Loaded' : 'Parsed'}</Badge>
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-3">
+            {figmaFile.summary?.thumbnailUrl && (
+              <ImageWithFallback
+                src={figmaFile.summary.thumbnailUrl}
+                alt={`Thumbnail of ${figmaFile.name}`}
+                className="w-full h-32 object-cover rounded border"
+              />
+            )}
+
             <div className="flex items-center gap-2">
               <FileText className="w-4 h-4 text-muted-foreground" />
               <span className="text-sm font-medium">{figmaFile.name}</span>
@@ -124,25 +131,54 @@ export default function FigmaPlugin({ onCreateTask }: FigmaPluginProps) {
               </span>
             </div>
             
-            <div className="flex items-center gap-4 text-xs text-muted-foreground">
-              <div className="flex items-center gap-1">
-                <Users className="w-3 h-3" />
-                <span>{figmaFile.collaborators} collaborators</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <Calendar className="w-3 h-3" />
-                <span>Parsed {figmaFile.lastModified.toLocaleDateString()}</span>
-              </div>
-            </div>
+            {figmaFile.summary ? (
+              <>
+                <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                  <div className="flex items-center gap-1" title={figmaFile.summary.editors.map(editor => editor.handle).join(', ')}>
+                    <Users className="w-3 h-3" />
+                    <span>{figmaFile.summary.editors.length} {figmaFile.summary.editors.length === 1 ? 'editor' : 'editors'}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Calendar className="w-3 h-3" />
+                    <span>Modified {new Date(figmaFile.summary.lastModified).toLocaleDateString()}</span>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {figmaFile.summary.pages.map(page => (
+                    <Badge key={page.id} variant="outline" className="text-xs">{page.name}</Badge>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Name taken from the link. Connect Figma in cloud storage to load the file's details.
+              </p>
+            )}
           </div>
 
           <Alert>
             <FileText className="h-4 w-4" />
             <AlertDescription>
-              Task will be created as: <strong>"{figmaFile.name}"</strong>
+              Project will be created as: <strong>"{figmaFile.name}"</strong>
             </AlertDescription>
           </Alert>
 
+          <div className="space-y-1">
+            <label className="text-sm">Start from template</label>
+            <Select value={templateId || templates[0]?.id} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="flex gap-2">
             <Button 
               onClick={handleCreateTaskFromFigma} 
@@ -150,7 +186,7 @@ export default function FigmaPlugin({ onCreateTask }: FigmaPluginProps) {
               size="sm"
             >
               <Figma className="w-4 h-4 mr-2" />
-              Create Task
+              Create Project
             </Button>
             <Button 
               onClick={handleReset} 
@@ -174,6 +210,30 @@ export default function FigmaPlugin({ onCreateTask }: FigmaPluginProps) {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {connection && !connection.connected && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                type="password"
+                placeholder="Figma personal access token"
+                value={figmaToken}
+                onChange={(e) => setFigmaToken(e.target.value)}
+                className="text-sm"
+              />
+              <Button size="sm" onClick={handleSaveToken} disabled={!figmaToken.trim() || isProcessing}>
+                <KeyRound className="w-4 h-4 mr-2" />
+                Connect
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Create one under Settings → Security in Figma. It is stored on the server and used to read file details.
+            </p>
+          </div>
+        )}
+        {connection?.handle && (
+          <p className="text-xs text-muted-foreground">Connected to Figma as {connection.handle}</p>
+        )}
+
         <div className="space-y-2">
           <Input
             placeholder="Paste Figma file URL here..."
@@ -213,7 +273,7 @@ export default function FigmaPlugin({ onCreateTask }: FigmaPluginProps) {
           ) : (
             <>
               <Link className="w-4 h-4 mr-2" />
-              Parse Figma URL
+              {connection?.connected ? 'Load Figma File' : 'Parse Figma URL'}
             </>
           )}
         </Button>
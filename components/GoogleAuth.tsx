@@ -94,12 +94,14 @@ export default function GoogleAuth() {
                 Figma Site
               </Badge>
             )}
-            <Badge 
-              variant="outline" 
-              className="text-xs bg-orange-100 text-orange-800 border-orange-300 dark:bg-orange-900 dark:text-orange-300 dark:border-orange-700"
-            >
-              Demo Mode Available
-            </Badge>
+            {isDemo && (
+              <Badge 
+                variant="outline" 
+                className="text-xs bg-orange-100 text-orange-800 border-orange-300 dark:bg-orange-900 dark:text-orange-300 dark:border-orange-700"
+              >
+                Demo Mode Available
+              </Badge>
+            )}
           </div>
         </CardTitle>
       </CardHeader>
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { ShieldCheck, ShieldAlert, ChevronDown, ChevronRight } from 'lucide-react';
+import { HandoffBlocker } from './checklist/progress';
+
+interface HandoffReadinessProps {
+  blockers: HandoffBlocker[];
+  onSelectBlocker: (blocker: HandoffBlocker) => void;
+}
+
+// The "ready for handoff" gate: open only once every high-priority item is done or N/A
+export default function HandoffReadiness({ blockers, onSelectBlocker }: HandoffReadinessProps) {
+  const [showBlockers, setShowBlockers] = useState(false);
+
+  if (blockers.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-300">
+        <ShieldCheck className="w-4 h-4" />
+        Ready for handoff
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setShowBlockers(prev => !prev)}
+        className="w-full flex items-center gap-2 text-sm text-red-700 dark:text-red-300"
+      >
+        <ShieldAlert className="w-4 h-4" />
+        Handoff blocked
+        <Badge variant="outline" className="border-red-200 text-red-700 dark:border-red-800 dark:text-red-300">
+          {blockers.length} high-priority {blockers.length === 1 ? 'item' : 'items'} open
+        </Badge>
+        {showBlockers ? <ChevronDown className="w-4 h-4 ml-auto" /> : <ChevronRight className="w-4 h-4 ml-auto" />}
+      </button>
+      {showBlockers && (
+        <ul className="space-y-1 text-left">
+          {blockers.map(blocker => (
+            <li key={blocker.item.id}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start h-auto py-1 text-xs font-normal whitespace-normal text-left"
+                onClick={() => onSelectBlocker(blocker)}
+              >
+                <span className="text-muted-foreground shrink-0">{blocker.category.title}:</span>
+                <span>{blocker.item.text}</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
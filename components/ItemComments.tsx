@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { MessageSquare, CheckCircle2, RotateCcw, Trash2, Reply, Loader2 } from 'lucide-react';
+import MemberAvatar from './MemberAvatar';
+import { ItemComment, ProjectMember } from './checklist/types';
+import {
+  CommentThread,
+  findMentionQuery,
+  getMentionedEmails,
+  getMentionLabel,
+  splitMentions
+} from './checklist/comments';
+
+interface ItemCommentsProps {
+  threads: CommentThread[];
+  members: ProjectMember[];
+  myEmail: string | null;
+  canModerate: boolean;
+  onAdd: (body: string, mentions: string[], parentId: string | null) => Promise<void>;
+  onResolve: (commentId: string, resolved: boolean) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+  onRead: () => void;
+}
+
+interface CommentComposerProps {
+  members: ProjectMember[];
+  placeholder: string;
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Textarea that suggests project members after an @ and posts with Cmd/Ctrl+Enter
+function CommentComposer({ members, placeholder, onSubmit, onCancel }: CommentComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestions = mentionQuery === null ? [] : members.filter(member =>
+    getMentionLabel(member).toLowerCase().startsWith(mentionQuery.toLowerCase()) ||
+    member.email.startsWith(mentionQuery.toLowerCase())
+  ).slice(0, 5);
+
+  const updateBody = (value: string, caret: number) => {
+    setBody(value);
+    setMentionQuery(findMentionQuery(value, caret));
+  };
+
+  const insertMention = (member: ProjectMember) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@[^\s@]*$/, `@${getMentionLabel(member)} `);
+    setBody(before + body.slice(caret));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    setIsPosting(true);
+    try {
+      await onSubmit(body.trim(), getMentionedEmails(body, members));
+      setBody('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post the comment');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => updateBody(e.target.value, e.target.selectionStart)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit();
+            if (e.key === 'Escape') setMentionQuery(null);
+          }}
+          placeholder={placeholder}
+          rows={2}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute z-10 left-0 top-full mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map(member => (
+              <button
+                key={member.email}
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted text-left"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+              >
+                <MemberAvatar member={member} className="w-5 h-5" />
+                <span className="truncate">{member.name || member.email}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={submit} disabled={isPosting || !body.trim()} className="gap-2">
+          {isPosting && <Loader2 className="w-4 h-4 animate-spin" />}
+          Comment
+        </Button>
+        {onCancel && (
+          <Button size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ItemComments({
+  threads,
+  members,
+  myEmail,
+  canModerate,
+  onAdd,
+  onResolve,
+  onDelete,
+  onRead
+}: ItemCommentsProps) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const commentCount = threads.reduce((count, thread) => count + 1 + thread.replies.length, 0);
+
+  // Everything shown while the panel is open counts as read
+  useEffect(() => {
+    onRead();
+  }, [commentCount]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const renderComment = (comment: ItemComment, isReply: boolean) => {
+    const author = members.find(member => member.email === comment.authorEmail) ??
+      { email: comment.authorEmail, name: comment.authorName, picture: comment.authorPicture };
+    const canDelete = canModerate || comment.authorEmail === myEmail;
+    return (
+      <div key={comment.id} className={`flex items-start gap-2 ${isReply ? 'ml-8' : ''}`}>
+        <MemberAvatar member={author} />
+        <div className="flex-1 min-w-0 space-y-0.5">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="text-sm text-foreground">{author.name || author.email}</span>
+            {new Date(comment.createdAt).toLocaleString()}
+            {canDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 ml-auto"
+                title={isReply ? 'Delete comment' : 'Delete thread'}
+                onClick={() => run(() => onDelete(comment.id))}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+          <p className="text-sm whitespace-pre-wrap break-words">
+            {splitMentions(comment.body, members).map((part, index) =>
+              part.member ? (
+                <span
+                  key={index}
+                  className={`rounded px-0.5 ${
+                    part.member.email === myEmail ? 'bg-amber-100 dark:bg-amber-900' : 'bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                  }`}
+                  title={part.member.email}
+                >
+                  {part.text}
+                </span>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm flex items-center gap-2">
+        <MessageSquare className="w-4 h-4" />
+        Comments
+        {commentCount > 0 && <Badge variant="secondary">{commentCount}</Badge>}
+      </h4>
+
+      {threads.map(({ root, replies }) => (
+        <div key={root.id} className={`space-y-2 rounded-lg border p-3 ${root.resolvedAt ? 'opacity-60' : ''}`}>
+          {renderComment(root, false)}
+          {replies.map(reply => renderComment(reply, true))}
+          <div className="flex items-center gap-2 pt-1">
+            {!root.resolvedAt && (
+              <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={() => setReplyingTo(root.id)}>
+                <Reply className="w-3 h-3" />
+                Reply
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1"
+              onClick={() => run(() => onResolve(root.id, !root.resolvedAt))}
+            >
+              {root.resolvedAt ? <RotateCcw className="w-3 h-3" /> : <CheckCircle2 className="w-3 h-3" />}
+              {root.resolvedAt ? 'Reopen' : 'Resolve'}
+            </Button>
+            {root.resolvedAt && (
+              <span className="text-xs text-muted-foreground">
+                Resolved by {root.resolvedBy} on {new Date(root.resolvedAt).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+          {replyingTo === root.id && (
+            <div className="ml-8">
+              <CommentComposer
+                members={members}
+                placeholder="Reply… (@ to mention)"
+                onSubmit={async (body, mentions) => {
+                  await onAdd(body, mentions, root.id);
+                  setReplyingTo(null);
+                }}
+                onCancel={() => setReplyingTo(null)}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <CommentComposer
+        members={members}
+        placeholder="Start a thread… (@ to mention, Ctrl+Enter to post)"
+        onSubmit={(body, mentions) => onAdd(body, mentions, null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Bold, Italic, List, Link2, Figma, Github, FileText, ImagePlus, Trash2, X, Plus } from 'lucide-react';
+import RichText from './RichText';
+import { ItemDetails, ItemEvidence } from './checklist/types';
+import {
+  createLink,
+  formatMegabytes,
+  getEvidenceSize,
+  getLinkKind,
+  getSafeHref,
+  LinkKind,
+  MAX_PROJECT_EVIDENCE_BYTES,
+  normalizeUrl,
+  readEvidenceFile
+} from './checklist/itemDetails';
+
+const LINK_ICONS: Record<LinkKind, typeof Link2> = {
+  figma: Figma,
+  github: Github,
+  document: FileText,
+  link: Link2
+};
+
+interface ItemDetailsPanelProps {
+  details: ItemDetails | null;
+  // Size of every screenshot in the project, this item's included
+  projectEvidenceBytes: number;
+  onChange: (changes: Partial<ItemDetails>) => void;
+}
+
+export default function ItemDetailsPanel({ details, projectEvidenceBytes, onChange }: ItemDetailsPanelProps) {
+  const note = details?.note ?? '';
+  const links = details?.links ?? [];
+  const evidence = details?.evidence ?? [];
+
+  const noteRef = useRef<HTMLTextAreaElement>(null);
+  const [linkUrl, setLinkUrl] = useState('');
+  const [linkLabel, setLinkLabel] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<ItemEvidence | null>(null);
+
+  // Wraps the selected text in markdown markers, or prefixes the selected lines for lists
+  const applyFormat = (format: 'bold' | 'italic' | 'list') => {
+    const textarea = noteRef.current;
+    const start = textarea?.selectionStart ?? note.length;
+    const end = textarea?.selectionEnd ?? note.length;
+    const selected = note.slice(start, end);
+
+    let replacement: string;
+    if (format === 'list') {
+      replacement = (selected || 'List item').split('\n').map(line => `- ${line.replace(/^\s*[-*]\s+/, '')}`).join('\n');
+    } else {
+      const marker = format === 'bold' ? '**' : '_';
+      replacement = `${marker}${selected || (format === 'bold' ? 'bold text' : 'italic text')}${marker}`;
+    }
+
+    onChange({ note: note.slice(0, start) + replacement + note.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start, start + replacement.length);
+    });
+  };
+
+  const addLink = () => {
+    const url = normalizeUrl(linkUrl);
+    if (!url) {
+      setError('Enter a valid http(s) link');
+      return;
+    }
+    onChange({ links: [...links, createLink(url, linkLabel)] });
+    setLinkUrl('');
+    setLinkLabel('');
+    setError(null);
+  };
+
+  const handleEvidenceUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const uploaded = await Promise.all(files.map(readEvidenceFile));
+      if (projectEvidenceBytes + getEvidenceSize(uploaded) > MAX_PROJECT_EVIDENCE_BYTES) {
+        setError(`Screenshots are limited to ${formatMegabytes(MAX_PROJECT_EVIDENCE_BYTES)} per project and ${formatMegabytes(projectEvidenceBytes)} is used. Remove some before adding more.`);
+        return;
+      }
+      onChange({ evidence: [...evidence, ...uploaded] });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the screenshot');
+    }
+  };
+
+  return (
+    <div className="space-y-4 pt-3 border-t">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-muted-foreground">Note</label>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Bold" onClick={() => applyFormat('bold')}>
+              <Bold className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Italic" onClick={() => applyFormat('italic')}>
+              <Italic className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Bulleted list" onClick={() => applyFormat('list')}>
+              <List className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+        <Textarea
+          ref={noteRef}
+          value={note}
+          onChange={(e) => onChange({ note: e.target.value })}
+          placeholder="Why is this done (or not)? Supports **bold**, _italic_, `code`, [links](https://…) and - lists"
+          className="text-sm"
+        />
+        {note.trim() && (
+          <div className="p-2 rounded bg-muted/40">
+            <RichText text={note} />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-muted-foreground">Links</label>
+        {links.map(link => {
+          const href = getSafeHref(link.url);
+          const Icon = href ? LINK_ICONS[getLinkKind(href)] : Link2;
+          return (
+            <div key={link.id} className="flex items-center gap-2 text-sm">
+              <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+              <a href={href} target="_blank" rel="noopener noreferrer" className="flex-1 truncate text-blue-600 hover:underline dark:text-blue-400">
+                {link.label}
+              </a>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                title="Remove link"
+                onClick={() => onChange({ links: links.filter(l => l.id !== link.id) })}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+        <div className="flex gap-2">
+          <Input
+            value={linkUrl}
+            onChange={(e) => setLinkUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addLink()}
+            placeholder="Figma frame, PR or doc URL"
+            className="flex-1"
+          />
+          <Input
+            value={linkLabel}
+            onChange={(e) => setLinkLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addLink()}
+            placeholder="Label (optional)"
+            className="w-40"
+          />
+          <Button variant="outline" size="sm" onClick={addLink} disabled={!linkUrl.trim()}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-muted-foreground">Evidence</label>
+          {projectEvidenceBytes > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {formatMegabytes(projectEvidenceBytes)} of {formatMegabytes(MAX_PROJECT_EVIDENCE_BYTES)} used in this project
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {evidence.map(item => (
+            <div key={item.id} className="relative group">
+              <button
+                type="button"
+                onClick={() => setViewing(item)}
+                className="block w-20 h-20 rounded border overflow-hidden bg-muted"
+                title={item.name}
+              >
+                <img src={item.dataUrl} alt={item.name} className="w-full h-full object-cover" />
+              </button>
+              <Button
+                variant="secondary"
+                size="sm"
+                className="absolute top-1 right-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                title="Remove screenshot"
+                onClick={() => onChange({ evidence: evidence.filter(e => e.id !== item.id) })}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          <label className="w-20 h-20 rounded border border-dashed flex flex-col items-center justify-center gap-1 text-xs text-muted-foreground cursor-pointer hover:bg-muted/30">
+            <ImagePlus className="w-4 h-4" />
+            Add
+            <input type="file" accept="image/*" multiple onChange={handleEvidenceUpload} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <Dialog open={viewing !== null} onOpenChange={(open: boolean) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{viewing?.name}</DialogTitle>
+          </DialogHeader>
+          {viewing && <img src={viewing.dataUrl} alt={viewing.name} className="w-full rounded" />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
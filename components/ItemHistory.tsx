@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { ActivityEntry } from './checklist/types';
+import { describeActivity } from './checklist/activity';
+
+interface ItemHistoryProps {
+  entries: ActivityEntry[];
+  isLoading: boolean;
+  onLoad: () => void;
+}
+
+// Every recorded change to one item, newest first
+export default function ItemHistory({ entries, isLoading, onLoad }: ItemHistoryProps) {
+  useEffect(() => {
+    onLoad();
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm flex items-center gap-2">
+        <History className="w-4 h-4" />
+        History
+        {isLoading && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+      </h4>
+      {entries.length === 0 && !isLoading && (
+        <p className="text-xs text-muted-foreground">No changes recorded yet.</p>
+      )}
+      <ol className="space-y-1 border-l pl-3">
+        {entries.slice().reverse().map(entry => (
+          <li key={entry.id} className="text-xs">
+            <span className="text-muted-foreground">{new Date(entry.at).toLocaleString()}</span>{' '}
+            <span>{entry.actorName || entry.actorEmail}</span>{' '}
+            <span className="text-muted-foreground">· {describeActivity(entry)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
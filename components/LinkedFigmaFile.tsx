@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Figma, ExternalLink, RefreshCw, FileSearch, Loader2 } from 'lucide-react';
+import { ImageWithFallback } from './figma/ImageWithFallback';
+import { FigmaAudit, FigmaFileLink } from './checklist/types';
+import { useFigmaApi } from './checklist/figma';
+import { getSafeHref } from './checklist/itemDetails';
+
+interface LinkedFigmaFileProps {
+  file: FigmaFileLink;
+  audit?: FigmaAudit;
+  onUpdate: (file: FigmaFileLink) => void;
+  onAudit: (audit: FigmaAudit) => void;
+}
+
+// The project's Figma file in the header: thumbnail, name and a link that opens it in Figma
+export default function LinkedFigmaFile({ file, audit, onUpdate, onAudit }: LinkedFigmaFileProps) {
+  const figmaApi = useFigmaApi();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isAuditing, setIsAuditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Figma thumbnail links expire, so the stored one can be renewed from the API
+  const refresh = async () => {
+    setIsRefreshing(true);
+    setError(null);
+    try {
+      const summary = await figmaApi.getFile(file.fileId);
+      onUpdate({ ...file, name: summary.name, thumbnailUrl: summary.thumbnailUrl, lastModified: summary.lastModified });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh the Figma file');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  // Findings land on the matching design items; the audit is kept with the project until it's run again
+  const runAudit = async () => {
+    setIsAuditing(true);
+    setError(null);
+    try {
+      onAudit(await figmaApi.getAudit(file.fileId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to audit the Figma file');
+    } finally {
+      setIsAuditing(false);
+    }
+  };
+
+  const findingCount = audit?.fileId === file.fileId
+    ? audit.checks.reduce((total, check) => total + check.findingCount, 0)
+    : null;
+
+  return (
+    <div className="inline-flex items-center gap-3 border rounded-lg p-2 pr-3 text-left max-w-md">
+      {file.thumbnailUrl ? (
+        <ImageWithFallback
+          src={file.thumbnailUrl}
+          alt={`Thumbnail of ${file.name}`}
+          className="w-16 h-12 object-cover rounded border"
+        />
+      ) : (
+        <div className="w-16 h-12 rounded border bg-muted flex items-center justify-center">
+          <Figma className="w-5 h-5 text-muted-foreground" />
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <a
+          href={getSafeHref(file.url)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm flex items-center gap-1 hover:underline"
+        >
+          <span className="truncate">{file.name}</span>
+          <ExternalLink className="w-3 h-3 shrink-0" />
+        </a>
+        <p className="text-xs text-muted-foreground">
+          {file.lastModified ? `Modified in Figma ${new Date(file.lastModified).toLocaleDateString()}` : 'Linked Figma file'}
+        </p>
+        {findingCount !== null && audit && (
+          <p className="text-xs text-muted-foreground">
+            Audited {new Date(audit.ranAt).toLocaleDateString()}: {findingCount === 0 ? 'no findings' : `${findingCount} finding${findingCount === 1 ? '' : 's'}`}
+          </p>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+      {figmaApi.available && (
+        <>
+          <Button variant="ghost" size="sm" onClick={runAudit} disabled={isAuditing} title="Audit the file against design items">
+            {isAuditing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSearch className="w-4 h-4" />}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={isRefreshing} title="Refresh from Figma">
+            <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Badge } from './ui/badge';
+import { Radio } from 'lucide-react';
+import MemberAvatar from './MemberAvatar';
+import { ChecklistCategory } from './checklist/types';
+import { Viewer } from './checklist/realtime';
+
+interface LivePresenceProps {
+  connected: boolean;
+  viewers: Viewer[];
+  categories: ChecklistCategory[];
+}
+
+// Live badge with everyone else who has the project open
+export default function LivePresence({ connected, viewers, categories }: LivePresenceProps) {
+  if (!connected) return null;
+
+  const describeTab = (tab: string | null) => categories.find(category => category.id === tab)?.title ?? 'the project';
+
+  return (
+    <Badge variant="outline" className="gap-2 bg-green-50 text-green-700 border-green-200 dark:bg-green-950 dark:text-green-300 dark:border-green-800">
+      <Radio className="w-3 h-3" />
+      Live
+      {viewers.length > 0 && (
+        <span className="flex -space-x-2">
+          {viewers.slice(0, 5).map(viewer => (
+            <span key={viewer.clientId} title={`${viewer.name || viewer.email} is viewing ${describeTab(viewer.tab)}`}>
+              <MemberAvatar member={viewer} className="w-5 h-5" />
+            </span>
+          ))}
+        </span>
+      )}
+    </Badge>
+  );
+}
@@ -0,0 +1,17 @@
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { ProjectMember } from './checklist/types';
+import { getInitials } from './checklist/members';
+
+interface MemberAvatarProps {
+  member: Pick<ProjectMember, 'email' | 'name' | 'picture'>;
+  className?: string;
+}
+
+export default function MemberAvatar({ member, className = 'w-6 h-6' }: MemberAvatarProps) {
+  return (
+    <Avatar className={`${className} border-2 border-background`} title={member.name ? `${member.name} (${member.email})` : member.email}>
+      {member.picture && <AvatarImage src={member.picture} alt={member.name || member.email} />}
+      <AvatarFallback className="text-[10px]">{getInitials(member)}</AvatarFallback>
+    </Avatar>
+  );
+}
@@ -0,0 +1,55 @@
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Scale } from 'lucide-react';
+import { Priority, PriorityWeights } from './checklist/types';
+import { DEFAULT_PRIORITY_WEIGHTS } from './checklist/progress';
+
+const PRIORITIES: Priority[] = ['high', 'medium', 'low'];
+
+interface PriorityWeightsEditorProps {
+  weights: PriorityWeights;
+  onChange: (weights: PriorityWeights) => void;
+}
+
+export default function PriorityWeightsEditor({ weights, onChange }: PriorityWeightsEditorProps) {
+  const setWeight = (priority: Priority, value: string) => {
+    const weight = Number(value);
+    if (!Number.isFinite(weight) || weight < 0) return;
+    onChange({ ...weights, [priority]: weight });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 gap-1 text-xs text-muted-foreground" title="Priority weights">
+          <Scale className="w-3 h-3" />
+          {weights.high}/{weights.medium}/{weights.low}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <div>
+          <p className="text-sm">Priority weights</p>
+          <p className="text-xs text-muted-foreground">How much a done item of each priority counts towards progress.</p>
+        </div>
+        {PRIORITIES.map(priority => (
+          <div key={priority} className="flex items-center justify-between gap-2">
+            <label className="text-sm capitalize" htmlFor={`weight-${priority}`}>{priority}</label>
+            <Input
+              id={`weight-${priority}`}
+              type="number"
+              min={0}
+              step={1}
+              value={weights[priority]}
+              onChange={(e) => setWeight(priority, e.target.value)}
+              className="w-20 h-8"
+            />
+          </div>
+        ))}
+        <Button variant="outline" size="sm" className="w-full" onClick={() => onChange(DEFAULT_PRIORITY_WEIGHTS)}>
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Users, UserPlus, X } from 'lucide-react';
+import MemberAvatar from './MemberAvatar';
+import { ProjectMember } from './checklist/types';
+import { createMember, isValidEmail, normalizeEmail } from './checklist/members';
+
+interface ProjectMembersProps {
+  projectName: string;
+  members: ProjectMember[];
+  // Only the owner manages membership; members see the list read-only
+  canManage: boolean;
+  onAdd: (member: ProjectMember) => void;
+  onRemove: (email: string) => void;
+}
+
+export default function ProjectMembers({ projectName, members, canManage, onAdd, onRemove }: ProjectMembersProps) {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!isValidEmail(email)) {
+      setError('Enter a valid Google account email');
+      return;
+    }
+    if (members.some(member => member.email === normalizeEmail(email))) {
+      setError('That person is already a member');
+      return;
+    }
+    onAdd(createMember(email));
+    setEmail('');
+    setError(null);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Users className="w-4 h-4" />
+          Members
+          <Badge variant="secondary">{members.length}</Badge>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Project members</DialogTitle>
+          <DialogDescription>
+            People who can open and edit "{projectName}" when they sign in with their Google account.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {members.map(member => (
+            <div key={member.email} className="flex items-center gap-3 p-2 rounded-lg border">
+              <MemberAvatar member={member} className="w-8 h-8" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{member.name || member.email}</p>
+                {member.name && <p className="text-xs text-muted-foreground truncate">{member.email}</p>}
+              </div>
+              <Badge variant="outline" className="capitalize">{member.role}</Badge>
+              {canManage && member.role !== 'owner' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  title="Remove member"
+                  onClick={() => onRemove(member.email)}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+        {canManage ? (
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="teammate@example.com"
+              />
+              <Button onClick={handleAdd} disabled={!email.trim()} className="gap-2">
+                <UserPlus className="w-4 h-4" />
+                Add
+              </Button>
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <p className="text-xs text-muted-foreground">
+              Members get access once the project is synced to the cloud.
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Only the project owner can change who has access.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel,
+  DropdownMenuSeparator, DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from './ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { FolderOpen, ChevronDown, Plus, Pencil, Copy, Archive, ArchiveRestore, Trash2, Check } from 'lucide-react';
+import { ChecklistTemplate, Project } from './checklist/types';
+import { getProjectKey } from './checklist/projects';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  templates: ChecklistTemplate[];
+  activeProjectId: string | null;
+  getProjectProgress: (project: Project) => number;
+  // Projects are passed around by getProjectKey, which tells apart same-id projects of different owners
+  onSelect: (projectKey: string) => void;
+  onCreate: (name: string, templateId: string) => void;
+  onRename: (projectKey: string, name: string) => void;
+  onDuplicate: (projectKey: string) => void;
+  onArchive: (projectKey: string, archived: boolean) => void;
+  onDelete: (projectKey: string) => void;
+}
+
+type NameDialogState = { mode: 'create' } | { mode: 'rename'; project: Project } | null;
+
+export default function ProjectSwitcher({
+  projects, templates, activeProjectId, getProjectProgress,
+  onSelect, onCreate, onRename, onDuplicate, onArchive, onDelete
+}: ProjectSwitcherProps) {
+  const [nameDialog, setNameDialog] = useState<NameDialogState>(null);
+  const [projectName, setProjectName] = useState('');
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+
+  const activeProject = projects.find(p => getProjectKey(p) === activeProjectId);
+  const openProjects = projects.filter(p => !p.archived);
+  const archivedProjects = projects.filter(p => p.archived);
+
+  const openNameDialog = (state: NonNullable<NameDialogState>) => {
+    setProjectName(state.mode === 'rename' ? state.project.name : '');
+    setTemplateId(templates[0]?.id ?? '');
+    setNameDialog(state);
+  };
+
+  const submitNameDialog = () => {
+    if (!nameDialog || !projectName.trim()) return;
+    if (nameDialog.mode === 'create') {
+      onCreate(projectName.trim(), templateId);
+    } else {
+      onRename(getProjectKey(nameDialog.project), projectName.trim());
+    }
+    setNameDialog(null);
+  };
+
+  const renderProjectRow = (project: Project) => (
+    <DropdownMenuItem
+      key={getProjectKey(project)}
+      onSelect={() => !project.archived && onSelect(getProjectKey(project))}
+      className="flex items-center gap-2"
+    >
+      {getProjectKey(project) === activeProjectId ? <Check className="w-4 h-4" /> : <span className="w-4" />}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">{project.name}</p>
+        <p className="text-xs text-muted-foreground">
+          {getProjectProgress(project)}% · updated {new Date(project.updatedAt).toLocaleDateString()}
+        </p>
+      </div>
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-2 max-w-xs">
+            <FolderOpen className="w-4 h-4" />
+            <span className="truncate">{activeProject?.name ?? 'No project'}</span>
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-72" align="center">
+          <DropdownMenuLabel>Projects</DropdownMenuLabel>
+          {openProjects.map(renderProjectRow)}
+          {openProjects.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">No open projects</p>
+          )}
+          <DropdownMenuItem onSelect={() => openNameDialog({ mode: 'create' })} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New project
+          </DropdownMenuItem>
+
+          {activeProject && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Current project</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => openNameDialog({ mode: 'rename', project: activeProject })} className="gap-2">
+                <Pencil className="w-4 h-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onDuplicate(getProjectKey(activeProject))} className="gap-2">
+                <Copy className="w-4 h-4" />
+                Duplicate
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onArchive(getProjectKey(activeProject), true)} className="gap-2">
+                <Archive className="w-4 h-4" />
+                Archive
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => setProjectToDelete(activeProject)}
+                className="gap-2 text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+
+          {archivedProjects.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-center justify-between">
+                Archived
+                <Badge variant="secondary">{archivedProjects.length}</Badge>
+              </DropdownMenuLabel>
+              {archivedProjects.map(project => (
+                <div key={getProjectKey(project)} className="flex items-center gap-1 px-2 py-1">
+                  <span className="flex-1 text-sm text-muted-foreground truncate">{project.name}</span>
+                  <Button variant="ghost" size="sm" onClick={() => onArchive(getProjectKey(project), false)} title="Restore">
+                    <ArchiveRestore className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setProjectToDelete(project)} title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open: boolean) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === 'rename' ? 'Rename project' : 'New project'}</DialogTitle>
+            <DialogDescription>
+              {nameDialog?.mode === 'rename'
+                ? 'Give this project a new name.'
+                : 'Each project keeps its own checklist progress.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={projectName}
+            onChange={(e) => setProjectName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitNameDialog()}
+            placeholder="e.g. Checkout redesign"
+          />
+          {nameDialog?.mode === 'create' && (
+            <div className="space-y-1">
+              <label className="text-sm">Start from template</label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitNameDialog} disabled={!projectName.trim()}>
+              {nameDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={projectToDelete !== null} onOpenChange={(open: boolean) => !open && setProjectToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{projectToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the project and its checklist progress. Archive it instead if you may need it later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (projectToDelete) onDelete(getProjectKey(projectToDelete));
+                setProjectToDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+import { ReactNode } from 'react';
+
+// Renders the light markdown used in item notes: **bold**, _italic_, `code`, [links](https://…)
+// and "- " bullet lists. Output is built from React elements, never raw HTML.
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|_[^_]+_|`[^`]+`|\[[^\]]+\]\(https?:\/\/[^)\s]+\))/g;
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).filter(Boolean).map((part, index) => {
+    const key = `${keyPrefix}-${index}`;
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={key}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('_') && part.endsWith('_') && part.length > 2) {
+      return <em key={key}>{part.slice(1, -1)}</em>;
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={key} className="px-1 rounded bg-muted text-xs">{part.slice(1, -1)}</code>;
+    }
+    const link = /^\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)$/.exec(part);
+    if (link) {
+      return (
+        <a key={key} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline dark:text-blue-400">
+          {link[1]}
+        </a>
+      );
+    }
+    return part;
+  });
+}
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+export default function RichText({ text, className = '' }: RichTextProps) {
+  const blocks: ReactNode[] = [];
+  let listItems: string[] = [];
+
+  const flushList = () => {
+    if (listItems.length === 0) return;
+    const key = `list-${blocks.length}`;
+    blocks.push(
+      <ul key={key} className="list-disc pl-5 space-y-0.5">
+        {listItems.map((item, index) => <li key={index}>{renderInline(item, `${key}-${index}`)}</li>)}
+      </ul>
+    );
+    listItems = [];
+  };
+
+  text.split('\n').forEach(line => {
+    const bullet = /^\s*[-*]\s+(.*)$/.exec(line);
+    if (bullet) {
+      listItems.push(bullet[1]);
+      return;
+    }
+    flushList();
+    if (line.trim()) {
+      const key = `p-${blocks.length}`;
+      blocks.push(<p key={key}>{renderInline(line, key)}</p>);
+    }
+  });
+  flushList();
+
+  return <div className={`text-sm space-y-1 break-words ${className}`}>{blocks}</div>;
+}
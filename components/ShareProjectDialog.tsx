@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Alert, AlertDescription } from './ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Share2, Link2, Copy, Check, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { Project } from './checklist/types';
+import { getCloudEndpoint, readApiResponse, useAuthorizedFetch } from './checklist/api';
+import { buildShareUrl, ShareLink } from './checklist/sharing';
+
+interface ShareProjectDialogProps {
+  project: Project;
+  disabled?: boolean;
+}
+
+export default function ShareProjectDialog({ project, disabled = false }: ShareProjectDialogProps) {
+  const authorizedFetch = useAuthorizedFetch();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const endpoint = getCloudEndpoint();
+
+  const withErrors = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const ownerParam = project.ownerId ? `&ownerId=${encodeURIComponent(project.ownerId)}` : '';
+
+  const loadLinks = () => withErrors(async () => {
+    const response = await authorizedFetch(`${endpoint}/share?projectId=${project.id}${ownerParam}`);
+    const result = await readApiResponse<{ data: ShareLink[] }>(response);
+    setLinks(result.data);
+  });
+
+  const createLink = () => withErrors(async () => {
+    const response = await authorizedFetch(`${endpoint}/share`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ projectId: project.id, ownerId: project.ownerId })
+    });
+    const result = await readApiResponse<{ data: ShareLink }>(response);
+    setLinks(prev => [...prev, result.data]);
+  });
+
+  const revokeLink = (token: string) => withErrors(async () => {
+    const response = await authorizedFetch(`${endpoint}/share?token=${token}`, { method: 'DELETE' });
+    await readApiResponse(response);
+    setLinks(prev => prev.filter(link => link.token !== token));
+  });
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(buildShareUrl(token, endpoint));
+    setCopiedToken(token);
+    setTimeout(() => setCopiedToken(null), 2000);
+  };
+
+  return (
+    <Dialog onOpenChange={(open: boolean) => open && endpoint && loadLinks()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <Share2 className="w-4 h-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{project.name}"</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can see this project's categories and progress without signing in.
+            Notes, evidence and people are not included. Revoke a link to turn it off.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!endpoint ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Set up a cloud endpoint in Cloud Storage before sharing projects.</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-3">
+            {links.length === 0 && !isLoading && (
+              <p className="text-sm text-muted-foreground">No share links yet.</p>
+            )}
+            {links.map(link => (
+              <div key={link.token} className="flex items-center gap-2 p-2 rounded-lg border">
+                <Link2 className="w-4 h-4 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate font-mono">…{link.token.slice(-8)}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {link.createdBy} · {new Date(link.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Copy link" onClick={() => copyLink(link.token)}>
+                  {copiedToken === link.token ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Revoke link"
+                  onClick={() => revokeLink(link.token)}
+                  disabled={isLoading}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button onClick={createLink} disabled={isLoading} className="w-full gap-2">
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+              Create read-only link
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Alert, AlertDescription } from './ui/alert';
+import { Eye, Clock, CalendarDays, AlertCircle, Loader2 } from 'lucide-react';
+import StatusPicker from './StatusPicker';
+import HandoffReadiness from './HandoffReadiness';
+import { Project } from './checklist/types';
+import { getCategoryIcon } from './checklist/icons';
+import { getItemStatus, getStatusLabel } from './checklist/status';
+import { getHandoffBlockers, getPriorityWeights, getWeightedProgress, HandoffBlocker } from './checklist/progress';
+import { describeCountdown, formatDateKey, getItemDueDate, getSchedule, isOverdue } from './checklist/schedule';
+import { readApiResponse } from './checklist/api';
+import { ReadOnlyProject } from './checklist/sharing';
+
+interface SharedProjectViewProps {
+  token: string;
+  endpoint: string;
+}
+
+// What stakeholders see when they open a share link: no sign-in, nothing editable
+export default function SharedProjectView({ token, endpoint }: SharedProjectViewProps) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSharedProject = async () => {
+      try {
+        const response = await fetch(`${endpoint}/share?token=${encodeURIComponent(token)}`);
+        const result = await readApiResponse<{ data: ReadOnlyProject }>(response);
+        setProject({ archived: false, ...result.data });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load the shared project');
+      }
+    };
+    loadSharedProject();
+  }, [token, endpoint]);
+
+  if (error) {
+    return (
+      <div className="max-w-md mx-auto pt-20 p-6">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="min-h-[50vh] flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const weights = getPriorityWeights(project);
+  const allItems = project.categories.flatMap(category => category.items);
+  const totalProgress = getWeightedProgress(allItems, project.checklists, weights);
+  const blockers = getHandoffBlockers(project);
+  const schedule = getSchedule(project);
+  const doneCount = allItems.filter(item => getItemStatus(project.checklists, item.id) === 'done').length;
+  const naCount = allItems.filter(item => getItemStatus(project.checklists, item.id) === 'na').length;
+
+  const scrollToBlocker = ({ item }: HandoffBlocker) => {
+    document.getElementById(`shared-item-${item.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <Badge variant="outline" className="gap-1">
+          <Eye className="w-3 h-3" />
+          Read-only view
+        </Badge>
+        <h1 className="text-4xl">{project.name}</h1>
+        <p className="text-muted-foreground">
+          Design delivery checklist · updated {new Date(project.updatedAt).toLocaleString()}
+        </p>
+      </div>
+
+      <Card className="max-w-md mx-auto">
+        <CardContent className="pt-6 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Overall Progress</span>
+            <span className="text-2xl">{totalProgress}%</span>
+          </div>
+          <Progress value={totalProgress} className="h-3" />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{doneCount} completed</span>
+            <span>
+              {allItems.length - naCount} total
+              {naCount > 0 && ` (${naCount} N/A)`}
+            </span>
+          </div>
+          {schedule.targetHandoffDate && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground pt-2 border-t">
+              <Clock className="w-3 h-3" />
+              {describeCountdown(schedule.targetHandoffDate)} ({formatDateKey(schedule.targetHandoffDate)})
+            </div>
+          )}
+          <div className="pt-2 border-t">
+            <HandoffReadiness blockers={blockers} onSelectBlocker={scrollToBlocker} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {project.categories.map(category => {
+        const IconComponent = getCategoryIcon(category.icon);
+        const progress = getWeightedProgress(category.items, project.checklists, weights);
+        return (
+          <Card key={category.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <CardTitle className="flex items-center gap-2">
+                    <IconComponent className="w-6 h-6" />
+                    {category.title}
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">{category.description}</p>
+                </div>
+                <div className="text-right space-y-1">
+                  <Badge variant={progress === 100 ? 'default' : 'secondary'}>{progress}% Complete</Badge>
+                  <Progress value={progress} className="w-24 h-2" />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {category.items.map((item, index) => {
+                  const status = getItemStatus(project.checklists, item.id);
+                  const dueDate = getItemDueDate(project, category.id, item.id);
+                  return (
+                    <div
+                      key={item.id}
+                      id={`shared-item-${item.id}`}
+                      className={`flex items-center gap-3 p-3 rounded-lg border ${
+                        isOverdue(dueDate, status) ? 'border-red-300 dark:border-red-800' : ''
+                      }`}
+                    >
+                      <StatusPicker status={status} onChange={() => {}} disabled />
+                      <span className={`flex-1 text-sm ${status === 'done' || status === 'na' ? 'line-through text-muted-foreground' : ''}`}>
+                        {index + 1}. {item.text}
+                      </span>
+                      <span className="text-xs text-muted-foreground">{getStatusLabel(status)}</span>
+                      {dueDate && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <CalendarDays className="w-3 h-3" />
+                          {formatDateKey(dueDate)}
+                        </span>
+                      )}
+                      <Badge variant="outline" className="text-xs">{item.priority.toUpperCase()}</Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
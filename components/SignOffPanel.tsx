@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Textarea } from './ui/textarea';
+import { ShieldCheck, ThumbsUp, MessageSquare, RotateCcw, X, Loader2 } from 'lucide-react';
+import MemberAvatar from './MemberAvatar';
+import { ApprovalDecision, Project, ProjectMember, SignOff } from './checklist/types';
+import { normalizeEmail } from './checklist/members';
+import { countApprovals, getDecisionLabel, getSignOff } from './checklist/signOff';
+import { getCloudEndpoint, readApiResponse, useAuthorizedFetch } from './checklist/api';
+
+interface SignOffPanelProps {
+  project: Project;
+  members: ProjectMember[];
+  currentEmail: string | null;
+  canManage: boolean;
+  disabled?: boolean;
+  onChange: (signOff: SignOff | null) => void;
+}
+
+const DECISION_COLORS: Record<ApprovalDecision, string> = {
+  pending: 'text-muted-foreground',
+  approved: 'text-green-700 border-green-200 dark:text-green-300 dark:border-green-800',
+  changes_requested: 'text-amber-700 border-amber-200 dark:text-amber-300 dark:border-amber-800'
+};
+
+export default function SignOffPanel({ project, members, currentEmail, canManage, disabled = false, onChange }: SignOffPanelProps) {
+  const authorizedFetch = useAuthorizedFetch();
+  const signOff = getSignOff(project);
+  const [reviewers, setReviewers] = useState<string[]>([]);
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = getCloudEndpoint();
+
+  const myReview = signOff?.reviews.find(review => review.email === currentEmail) ?? null;
+
+  const send = async (init: RequestInit, query = '') => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await authorizedFetch(`${endpoint}/approvals${query}`, init);
+      const result = await readApiResponse<{ data: SignOff | null }>(response);
+      onChange(result.data);
+      setComment('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update sign-off');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const post = (body: object) => send({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId: project.id, ownerId: project.ownerId, ...body })
+  });
+
+  const requestSignOff = (emails: string[]) => post({ action: 'request', reviewers: emails });
+  const respond = (decision: ApprovalDecision) => post({ action: 'respond', decision, comment });
+  const cancelSignOff = () => send(
+    { method: 'DELETE' },
+    `?projectId=${project.id}${project.ownerId ? `&ownerId=${encodeURIComponent(project.ownerId)}` : ''}`
+  );
+
+  const toggleReviewer = (email: string, checked: boolean) => {
+    setReviewers(prev => (checked ? [...prev, email] : prev.filter(e => e !== email)));
+  };
+
+  if (disabled || !endpoint) {
+    return (
+      <p className="text-xs text-muted-foreground flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4" />
+        Sign-off is recorded in the cloud. Set up cloud storage and sync this project to request approvals.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          Stakeholder sign-off
+        </span>
+        {signOff && (
+          <Badge variant="secondary">{countApprovals(signOff)}/{signOff.reviews.length} approved</Badge>
+        )}
+      </div>
+
+      {!signOff && (canManage ? (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Choose who has to approve. The item is marked done once all of them have.
+          </p>
+          {members.map(member => (
+            <label key={member.email} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={reviewers.includes(member.email)}
+                onCheckedChange={(checked: boolean) => toggleReviewer(member.email, checked === true)}
+              />
+              <MemberAvatar member={member} />
+              {member.name || member.email}
+            </label>
+          ))}
+          <Button size="sm" onClick={() => requestSignOff(reviewers)} disabled={isSaving || reviewers.length === 0} className="gap-2">
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Request sign-off
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">The project owner hasn't requested sign-off yet.</p>
+      ))}
+
+      {signOff && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Requested by {signOff.requestedBy} on {new Date(signOff.requestedAt).toLocaleString()} (revision {signOff.revision})
+          </p>
+          {signOff.reviews.map(review => {
+            const member = members.find(m => normalizeEmail(m.email) === review.email);
+            return (
+              <div key={review.email} className="flex items-start gap-2">
+                <MemberAvatar member={member ?? review} />
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm truncate">{review.name || review.email}</span>
+                    <Badge variant="outline" className={`text-xs ${DECISION_COLORS[review.decision]}`}>
+                      {getDecisionLabel(review.decision)}
+                    </Badge>
+                  </div>
+                  {review.respondedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(review.respondedAt).toLocaleString()} · revision {review.revision}
+                    </p>
+                  )}
+                  {review.comment && <p className="text-sm whitespace-pre-wrap">{review.comment}</p>}
+                </div>
+              </div>
+            );
+          })}
+
+          {myReview && (
+            <div className="space-y-2 pt-2 border-t">
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comment (required when requesting changes)"
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => respond('approved')} disabled={isSaving} className="gap-2">
+                  <ThumbsUp className="w-4 h-4" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => respond('changes_requested')}
+                  disabled={isSaving || !comment.trim()}
+                  className="gap-2"
+                >
+                  <MessageSquare className="w-4 h-4" />
+                  Request changes
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {canManage && (
+            <div className="flex gap-2 pt-2 border-t">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => requestSignOff(signOff.reviews.map(review => review.email))}
+                disabled={isSaving}
+                className="gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Request again
+              </Button>
+              <Button size="sm" variant="ghost" onClick={cancelSignOff} disabled={isSaving} className="gap-2">
+                <X className="w-4 h-4" />
+                Cancel sign-off
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
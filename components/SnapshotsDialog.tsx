@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Camera, ArrowLeft, RotateCcw, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { Project, ProjectSnapshot } from './checklist/types';
+import { migrateProject } from './checklist/projects';
+import { diffSnapshot, SNAPSHOT_KIND_LABELS } from './checklist/snapshots';
+
+interface SnapshotsDialogProps {
+  project: Project;
+  snapshots: ProjectSnapshot[];
+  isLoading: boolean;
+  error: string | null;
+  myEmail: string;
+  isOwner: boolean;
+  disabled?: boolean;
+  onOpen: () => void;
+  onCreate: (name: string) => Promise<void>;
+  onLoad: (snapshotId: string) => Promise<ProjectSnapshot>;
+  onRestore: (snapshotId: string) => Promise<void>;
+  onDelete: (snapshotId: string) => Promise<void>;
+}
+
+export default function SnapshotsDialog({
+  project,
+  snapshots,
+  isLoading,
+  error,
+  myEmail,
+  isOwner,
+  disabled = false,
+  onOpen,
+  onCreate,
+  onLoad,
+  onRestore,
+  onDelete
+}: SnapshotsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<ProjectSnapshot | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const withErrors = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const createSnapshot = () => withErrors(async () => {
+    await onCreate(name.trim());
+    setName('');
+  });
+
+  const openSnapshot = (snapshotId: string) => withErrors(async () => {
+    setSelected(await onLoad(snapshotId));
+  });
+
+  const restoreSnapshot = (snapshotId: string) => withErrors(async () => {
+    await onRestore(snapshotId);
+    setSelected(null);
+    setOpen(false);
+  });
+
+  const deleteSnapshot = (snapshotId: string) => withErrors(async () => {
+    await onDelete(snapshotId);
+  });
+
+  // Owners can delete any snapshot; others only the ones they named
+  const canDelete = (snapshot: ProjectSnapshot) =>
+    isOwner || (snapshot.kind === 'manual' && snapshot.createdBy.toLowerCase() === myEmail.toLowerCase());
+
+  const differences = selected?.data ? diffSnapshot(migrateProject(selected.data), project) : [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next: boolean) => {
+        setOpen(next);
+        setSelected(null);
+        setActionError(null);
+        if (next) onOpen();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <Camera className="w-4 h-4" />
+          Snapshots
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{selected ? selected.name : `Snapshots of "${project.name}"`}</DialogTitle>
+          <DialogDescription>
+            {selected
+              ? 'What restoring this snapshot would change. The current state is kept as a snapshot of its own.'
+              : 'Copies of this project taken before imports, at the start of each day it changed, and whenever someone names one.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {(error || actionError) && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{actionError || error}</AlertDescription>
+          </Alert>
+        )}
+
+        {selected ? (
+          <div className="space-y-4">
+            {differences.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This snapshot matches the project as it is now.</p>
+            ) : (
+              <div className="border rounded-md divide-y text-sm">
+                <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs text-muted-foreground">
+                  <span>Item</span>
+                  <span>Now</span>
+                  <span>In the snapshot</span>
+                </div>
+                {differences.map((difference, index) => (
+                  <div key={index} className="grid grid-cols-3 gap-2 px-3 py-2">
+                    <span className="truncate" title={difference.label}>{difference.label}</span>
+                    <span className="text-muted-foreground break-words">{difference.now}</span>
+                    <span className="break-words">{difference.then}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-between">
+              <Button variant="ghost" className="gap-2" onClick={() => setSelected(null)}>
+                <ArrowLeft className="w-4 h-4" />
+                All snapshots
+              </Button>
+              <Button
+                className="gap-2"
+                disabled={isWorking || differences.length === 0}
+                onClick={() => restoreSnapshot(selected.id)}
+              >
+                {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                Restore
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Name this version, e.g. Before design review"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && name.trim() && createSnapshot()}
+              />
+              <Button onClick={createSnapshot} disabled={isWorking || !name.trim()}>
+                Take snapshot
+              </Button>
+            </div>
+
+            {isLoading && snapshots.length === 0 && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!isLoading && snapshots.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">No snapshots yet.</p>
+            )}
+
+            <div className="space-y-2">
+              {snapshots.map(snapshot => (
+                <div key={snapshot.id} className="flex items-center gap-3 border rounded-md px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm truncate">{snapshot.name}</span>
+                      <Badge variant="outline" className="text-xs">{SNAPSHOT_KIND_LABELS[snapshot.kind]}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.createdBy}
+                      {snapshot.revision !== null && ` · revision ${snapshot.revision}`}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" disabled={isWorking} onClick={() => openSnapshot(snapshot.id)}>
+                    Compare
+                  </Button>
+                  {canDelete(snapshot) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isWorking}
+                      onClick={() => deleteSnapshot(snapshot.id)}
+                      aria-label={`Delete snapshot ${snapshot.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
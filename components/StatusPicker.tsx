@@ -0,0 +1,59 @@
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Circle, CircleDot, CheckCircle2, MinusCircle, Check } from 'lucide-react';
+import { ItemStatus } from './checklist/types';
+import { getStatusLabel, ITEM_STATUSES } from './checklist/status';
+
+const STATUS_ICONS: Record<ItemStatus, typeof Circle> = {
+  todo: Circle,
+  in_progress: CircleDot,
+  done: CheckCircle2,
+  na: MinusCircle
+};
+
+const STATUS_COLORS: Record<ItemStatus, string> = {
+  todo: 'text-muted-foreground',
+  in_progress: 'text-blue-600 dark:text-blue-400',
+  done: 'text-green-600 dark:text-green-400',
+  na: 'text-gray-400 dark:text-gray-500'
+};
+
+interface StatusPickerProps {
+  status: ItemStatus;
+  onChange: (status: ItemStatus) => void;
+  disabled?: boolean;
+  // Limits which statuses can be picked; defaults to all of them
+  options?: ItemStatus[];
+}
+
+export default function StatusPicker({ status, onChange, disabled = false, options }: StatusPickerProps) {
+  const Icon = STATUS_ICONS[status];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled}>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 w-6 p-0 ${STATUS_COLORS[status]}`}
+          title={getStatusLabel(status)}
+          aria-label={`Status: ${getStatusLabel(status)}`}
+        >
+          <Icon className="w-5 h-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {ITEM_STATUSES.filter(option => !options || options.includes(option.value)).map(option => {
+          const OptionIcon = STATUS_ICONS[option.value];
+          return (
+            <DropdownMenuItem key={option.value} onClick={() => onChange(option.value)} className="gap-2">
+              <OptionIcon className={`w-4 h-4 ${STATUS_COLORS[option.value]}`} />
+              {option.label}
+              {option.value === status && <Check className="w-4 h-4 ml-auto" />}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
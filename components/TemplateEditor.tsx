@@ -0,0 +1,271 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader } from './ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { LayoutTemplate, Plus, Trash2, ArrowUp, ArrowDown, Copy, Save } from 'lucide-react';
+import { ChecklistCategory, ChecklistItem, ChecklistTemplate, Priority } from './checklist/types';
+import { CATEGORY_ICONS, getCategoryIcon } from './checklist/icons';
+import { createCategory, createItem, createTemplate } from './checklist/templates';
+
+interface TemplateEditorProps {
+  templates: ChecklistTemplate[];
+  onSave: (template: ChecklistTemplate) => void;
+  onDelete: (templateId: string) => void;
+}
+
+const PRIORITIES: Priority[] = ['high', 'medium', 'low'];
+
+// Returns a copy of the list with the entry at `index` moved by `offset`
+function move<T>(list: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export default function TemplateEditor({ templates, onSave, onDelete }: TemplateEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState(templates[0]?.id ?? '');
+  const [draft, setDraft] = useState<ChecklistTemplate | null>(null);
+
+  const selected = templates.find(t => t.id === selectedId) ?? templates[0];
+  const editing = draft ?? selected;
+
+  const selectTemplate = (templateId: string) => {
+    setSelectedId(templateId);
+    setDraft(null);
+  };
+
+  const startCopy = () => {
+    const copy = createTemplate(`${selected.name} copy`, selected.categories);
+    setSelectedId(copy.id);
+    setDraft(copy);
+  };
+
+  const updateDraft = (changes: Partial<ChecklistTemplate>) => {
+    setDraft({ ...editing, ...changes });
+  };
+
+  const updateCategory = (categoryIndex: number, changes: Partial<ChecklistCategory>) => {
+    updateDraft({
+      categories: editing.categories.map((category, index) =>
+        index === categoryIndex ? { ...category, ...changes } : category
+      )
+    });
+  };
+
+  const updateItem = (categoryIndex: number, itemIndex: number, changes: Partial<ChecklistItem>) => {
+    const category = editing.categories[categoryIndex];
+    updateCategory(categoryIndex, {
+      items: category.items.map((item, index) => (index === itemIndex ? { ...item, ...changes } : item))
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const saved = { ...draft, updatedAt: new Date().toISOString() };
+    onSave(saved);
+    setSelectedId(saved.id);
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (editing.builtIn) return;
+    onDelete(editing.id);
+    selectTemplate(templates[0].id);
+  };
+
+  const readOnly = editing.builtIn;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <LayoutTemplate className="w-4 h-4" />
+          Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Checklist Templates</DialogTitle>
+          <DialogDescription>
+            New projects start from a template. Changes here don't affect existing projects.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={draft && !templates.some(t => t.id === draft.id) ? '' : selected.id} onValueChange={selectTemplate}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Unsaved template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}{template.builtIn ? ' (built-in)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={startCopy} className="gap-2">
+              <Copy className="w-4 h-4" />
+              Duplicate
+            </Button>
+            {!readOnly && (
+              <Button variant="outline" size="sm" onClick={handleDelete} className="gap-2">
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={!draft} className="gap-2 ml-auto">
+              <Save className="w-4 h-4" />
+              Save Template
+            </Button>
+          </div>
+
+          {readOnly ? (
+            <p className="text-sm text-muted-foreground">
+              <Badge variant="secondary" className="mr-2">Built-in</Badge>
+              Duplicate this template to customize it.
+            </p>
+          ) : (
+            <Input
+              value={editing.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="Template name"
+            />
+          )}
+
+          {editing.categories.map((category, categoryIndex) => {
+            const IconComponent = getCategoryIcon(category.icon);
+            return (
+              <Card key={category.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center gap-2">
+                    <IconComponent className="w-5 h-5 shrink-0" />
+                    {readOnly ? (
+                      <span className="flex-1">{category.title}</span>
+                    ) : (
+                      <>
+                        <Input
+                          value={category.title}
+                          onChange={(e) => updateCategory(categoryIndex, { title: e.target.value })}
+                          className="flex-1"
+                        />
+                        <Select value={category.icon} onValueChange={(icon: string) => updateCategory(categoryIndex, { icon })}>
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.keys(CATEGORY_ICONS).map(name => (
+                              <SelectItem key={name} value={name}>{name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="sm" onClick={() => updateDraft({ categories: move(editing.categories, categoryIndex, -1) })}>
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => updateDraft({ categories: move(editing.categories, categoryIndex, 1) })}>
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateDraft({ categories: editing.categories.filter((_, index) => index !== categoryIndex) })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                  {readOnly ? (
+                    <p className="text-sm text-muted-foreground">{category.description}</p>
+                  ) : (
+                    <Input
+                      value={category.description}
+                      onChange={(e) => updateCategory(categoryIndex, { description: e.target.value })}
+                      placeholder="Description"
+                      className="text-sm"
+                    />
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {category.items.map((item, itemIndex) => (
+                    <div key={item.id} className="flex items-center gap-2">
+                      {readOnly ? (
+                        <span className="flex-1 text-sm">{item.text}</span>
+                      ) : (
+                        <Input
+                          value={item.text}
+                          onChange={(e) => updateItem(categoryIndex, itemIndex, { text: e.target.value })}
+                          className="flex-1 text-sm"
+                        />
+                      )}
+                      <Select
+                        value={item.priority}
+                        onValueChange={(priority: Priority) => updateItem(categoryIndex, itemIndex, { priority })}
+                        disabled={readOnly}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PRIORITIES.map(priority => (
+                            <SelectItem key={priority} value={priority}>{priority.toUpperCase()}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!readOnly && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => updateCategory(categoryIndex, { items: move(category.items, itemIndex, -1) })}>
+                            <ArrowUp className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => updateCategory(categoryIndex, { items: move(category.items, itemIndex, 1) })}>
+                            <ArrowDown className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateCategory(categoryIndex, { items: category.items.filter((_, index) => index !== itemIndex) })}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                  {!readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => updateCategory(categoryIndex, { items: [...category.items, createItem()] })}
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add item
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {!readOnly && (
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => updateDraft({ categories: [...editing.categories, createCategory()] })}
+            >
+              <Plus className="w-4 h-4" />
+              Add category
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { ActivityEntry, ItemStatus, Project } from './types';
+import { getCloudEndpoint, readApiResponse, useAuthorizedFetch } from './api';
+import { getStatusLabel } from './status';
+
+// People who appear in the log, for the user filter
+export function getActivityActors(entries: ActivityEntry[]): { email: string; name?: string }[] {
+  const actors = new Map<string, string | undefined>();
+  entries.forEach(entry => actors.set(entry.actorEmail, entry.actorName ?? actors.get(entry.actorEmail)));
+  return [...actors].map(([email, name]) => ({ email, name }));
+}
+
+const describeList = (emails: string[]) => (emails.length > 0 ? emails.join(', ') : 'nobody');
+
+// One line saying what changed, without the item name (the timeline shows that separately)
+export function describeActivity(entry: ActivityEntry): string {
+  switch (entry.type) {
+    case 'status':
+      return `${getStatusLabel(entry.from as ItemStatus)} → ${getStatusLabel(entry.to as ItemStatus)}`;
+    case 'note':
+      return entry.to ? (entry.from ? 'Edited the note' : 'Added a note') : 'Removed the note';
+    case 'assignment':
+      return `Assigned ${describeList(entry.to as string[])} (was ${describeList(entry.from as string[])})`;
+    case 'template': {
+      const from = entry.from as { templateId: string | null; items: number };
+      const to = entry.to as { templateId: string | null; items: number };
+      return from.templateId !== to.templateId
+        ? `Switched template from ${from.templateId ?? 'none'} to ${to.templateId ?? 'none'}`
+        : `Changed the checklist (${from.items} → ${to.items} items)`;
+    }
+    case 'restore':
+      return `Restored the snapshot "${(entry.to as { name: string }).name}"`;
+    default:
+      return 'Changed the project';
+  }
+}
+
+export const findActivityItem = (project: Project | null, itemId: string | undefined) =>
+  itemId ? project?.categories.flatMap(category => category.items).find(item => item.id === itemId) ?? null : null;
+
+// Loads the project's activity log on request; it's fetched when a timeline or item history is opened
+export function useProjectActivity(project: Project | null, enabled: boolean) {
+  const authorizedFetch = useAuthorizedFetch();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = getCloudEndpoint();
+  const available = enabled && !!endpoint && !!project;
+
+  useEffect(() => {
+    setEntries([]);
+  }, [project?.id]);
+
+  const refresh = async () => {
+    if (!available || !project) return;
+    setIsLoading(true);
+    try {
+      const ownerParam = project.ownerId ? `&ownerId=${encodeURIComponent(project.ownerId)}` : '';
+      const response = await authorizedFetch(`${endpoint}/activity?projectId=${project.id}${ownerParam}`);
+      const result = await readApiResponse<{ data: ActivityEntry[] }>(response);
+      setEntries(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { available, entries, isLoading, error, refresh };
+}
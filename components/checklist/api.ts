@@ -0,0 +1,42 @@
+import { useAuth } from '../AuthContext';
+
+// Base URL of the cloud functions (`/save`, `/load`, `/share`, ...), configured in Cloud Storage settings
+export const ENDPOINT_STORAGE_KEY = 'checklist-endpoint';
+
+export const getCloudEndpoint = () => localStorage.getItem(ENDPOINT_STORAGE_KEY) || '';
+
+// Calls the cloud endpoint with the Google ID token, refreshing it and retrying once on a 401
+export function useAuthorizedFetch() {
+  const { getIdToken, refreshIdToken } = useAuth();
+
+  return async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const send = (token: string) => fetch(url, {
+      ...init,
+      headers: { ...init.headers, 'Authorization': `Bearer ${token}` }
+    });
+
+    const idToken = await getIdToken();
+    if (!idToken) {
+      throw new Error('No Google ID token available. Please sign in again.');
+    }
+
+    const response = await send(idToken);
+    if (response.status !== 401) return response;
+
+    const refreshedToken = await refreshIdToken();
+    if (!refreshedToken) {
+      throw new Error('Your Google session expired. Please sign in again.');
+    }
+    return send(refreshedToken);
+  };
+}
+
+// Parses a function response, turning error responses into an Error with the server's message.
+// Callers name the body's shape; those that only need the error check leave it unknown.
+export async function readApiResponse<T = unknown>(response: Response): Promise<T> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.message || `HTTP error! status: ${response.status}`);
+  }
+  return body as T;
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ItemComment, Project, ProjectMember } from './types';
+import { getCloudEndpoint, readApiResponse, useAuthorizedFetch } from './api';
+import { getProjectKey } from './projects';
+import { storageKey } from './storage';
+
+export interface CommentThread {
+  root: ItemComment;
+  replies: ItemComment[];
+}
+
+// When the user last looked at each item's comments, per project: { [projectKey]: { [itemId]: ISO date } }
+type CommentReads = Record<string, Record<string, string>>;
+
+const loadCommentReads = (userId: string | undefined): CommentReads => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId, 'comment-reads')) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Threads on an item, oldest first, with unresolved threads ahead of resolved ones
+export function getThreads(comments: ItemComment[], itemId: string): CommentThread[] {
+  const itemComments = comments.filter(comment => comment.itemId === itemId);
+  return itemComments
+    .filter(comment => comment.parentId === null)
+    .map(root => ({ root, replies: itemComments.filter(comment => comment.parentId === root.id) }))
+    .sort((a, b) => Number(!!a.root.resolvedAt) - Number(!!b.root.resolvedAt));
+}
+
+// Comments by other people that arrived after the user last opened the item
+export function countUnread(
+  comments: ItemComment[],
+  itemIds: string[],
+  lastRead: Record<string, string>,
+  myEmail: string | null
+): number {
+  return comments.filter(comment =>
+    itemIds.includes(comment.itemId) &&
+    comment.authorEmail !== myEmail &&
+    comment.createdAt > (lastRead[comment.itemId] ?? '')
+  ).length;
+}
+
+// How a member is written after the @ in a comment
+export const getMentionLabel = (member: Pick<ProjectMember, 'email' | 'name'>) =>
+  (member.name || member.email.split('@')[0]).replace(/\s+/g, '');
+
+// The partly typed mention right before the caret, e.g. "ali" for "Thanks @ali|"
+export function findMentionQuery(text: string, caret: number): string | null {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  return match ? match[1] : null;
+}
+
+// Splits a comment into plain text and @mentions of the given members, for highlighting
+export function splitMentions(body: string, members: ProjectMember[]): { text: string; member?: ProjectMember }[] {
+  const byLabel = new Map(members.map(member => [getMentionLabel(member).toLowerCase(), member]));
+  return body.split(/(@[^\s@]+)/).filter(Boolean).map(text => {
+    const member = text.startsWith('@') ? byLabel.get(text.slice(1).toLowerCase()) : undefined;
+    return member ? { text, member } : { text };
+  });
+}
+
+// Mentions that are still in the text when it's posted
+export const getMentionedEmails = (body: string, members: ProjectMember[]) =>
+  [...new Set(splitMentions(body, members).flatMap(part => (part.member ? [part.member.email] : [])))];
+
+// Loads a project's comments from the comments endpoint and keeps track of what the user has read
+export function useProjectComments(project: Project | null, userId: string | undefined, enabled: boolean) {
+  const authorizedFetch = useAuthorizedFetch();
+  const [comments, setComments] = useState<ItemComment[]>([]);
+  const [reads, setReads] = useState<CommentReads>(() => loadCommentReads(userId));
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = getCloudEndpoint();
+  const projectId = project?.id ?? null;
+  const ownerParam = project?.ownerId ? `&ownerId=${encodeURIComponent(project.ownerId)}` : '';
+  const available = enabled && !!endpoint && !!projectId;
+
+  // authorizedFetch is recreated every render, so it's left out of the dependencies
+  const refresh = useCallback(async () => {
+    if (!available) return;
+    try {
+      const response = await authorizedFetch(`${endpoint}/comments?projectId=${projectId}${ownerParam}`);
+      const result = await readApiResponse<{ data: ItemComment[] }>(response);
+      setComments(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    }
+  }, [available, endpoint, projectId, ownerParam]);
+
+  useEffect(() => {
+    setComments([]);
+    refresh();
+    window.addEventListener('focus', refresh);
+    return () => window.removeEventListener('focus', refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    setReads(loadCommentReads(userId));
+  }, [userId]);
+
+  const send = async <T>(method: string, body?: object, query = '') => {
+    const response = await authorizedFetch(`${endpoint}/comments${query}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body && JSON.stringify({ projectId, ownerId: project?.ownerId, ...body })
+    });
+    return readApiResponse<T>(response);
+  };
+
+  const addComment = async (itemId: string, body: string, mentions: string[], parentId: string | null = null) => {
+    const result = await send<{ data: ItemComment }>('POST', { itemId, body, mentions, parentId });
+    setComments(prev => [...prev, result.data]);
+  };
+
+  const setResolved = async (commentId: string, resolved: boolean) => {
+    const result = await send<{ data: ItemComment }>('PATCH', { commentId, resolved });
+    setComments(prev => prev.map(comment => (comment.id === commentId ? result.data : comment)));
+  };
+
+  const deleteComment = async (commentId: string) => {
+    const result = await send<{ deletedIds: string[] }>('DELETE', undefined, `?projectId=${projectId}${ownerParam}&commentId=${commentId}`);
+    setComments(prev => prev.filter(comment => !result.deletedIds.includes(comment.id)));
+  };
+
+  const projectKey = project ? getProjectKey(project) : null;
+  const lastRead = (projectKey && reads[projectKey]) || {};
+
+  const markRead = (itemId: string) => {
+    if (!projectKey) return;
+    setReads(prev => {
+      const next = { ...prev, [projectKey]: { ...prev[projectKey], [itemId]: new Date().toISOString() } };
+      localStorage.setItem(storageKey(userId, 'comment-reads'), JSON.stringify(next));
+      return next;
+    });
+  };
+
+  return { available, comments, error, lastRead, refresh, addComment, setResolved, deleteComment, markRead };
+}
@@ -0,0 +1,154 @@
+import { FigmaAudit, FigmaFileLink, FigmaNodeLink } from './types';
+import { getCloudEndpoint, readApiResponse, useAuthorizedFetch } from './api';
+
+// File details from the figma function, read from the Figma REST API with the stored access token
+export interface FigmaFileSummary {
+  fileId: string;
+  name: string;
+  thumbnailUrl: string | null;
+  lastModified: string;
+  version: string;
+  // People who saved versions of the file, most recent first
+  editors: { handle: string; imageUrl?: string }[];
+  pages: { id: string; name: string }[];
+}
+
+// Whether the signed-in user can use Figma: their own token, or one configured for the deployment
+export interface FigmaConnection {
+  connected: boolean;
+  source: 'user' | 'environment' | null;
+  handle: string | null;
+}
+
+// A node looked up by the figma function; name is null when the file has no such node
+export interface FigmaNodeSummary {
+  nodeId: string;
+  name: string | null;
+  type: string | null;
+  thumbnailUrl: string | null;
+}
+
+export interface ParsedFigmaUrl {
+  fileId: string;
+  // Taken from the URL slug; the real name comes from the API
+  fileName: string;
+  url: string;
+  // From ?node-id=, in the API's "12:34" form
+  nodeId: string | null;
+}
+
+// Figma URL patterns:
+// https://www.figma.com/file/[file-id]/[file-name]
+// https://www.figma.com/design/[file-id]/[file-name]
+const FIGMA_URL_PATTERN = /https:\/\/(?:www\.)?figma\.com\/(?:file|design)\/([a-zA-Z0-9]+)\/([^?/#]+)/;
+
+export function parseFigmaUrl(url: string): ParsedFigmaUrl | null {
+  const match = url.trim().match(FIGMA_URL_PATTERN);
+  if (!match) return null;
+
+  const [, fileId, encodedFileName] = match;
+  let fileName: string;
+  try {
+    fileName = decodeURIComponent(encodedFileName);
+  } catch {
+    fileName = encodedFileName;
+  }
+
+  // Hyphens stand in for spaces in the slug; capitalize each word
+  fileName = fileName.replace(/-/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+  return { fileId, fileName, url: url.trim(), nodeId: parseNodeId(url) };
+}
+
+// Links write node ids as "12-34" (older ones as "12:34", sometimes encoded); the API wants "12:34"
+function parseNodeId(url: string): string | null {
+  try {
+    const nodeId = new URL(url.trim()).searchParams.get('node-id');
+    if (!nodeId) return null;
+    const normalized = nodeId.replace(/^(I?\d+)-(\d+)/, '$1:$2').replace(/;(\d+)-(\d+)/g, ';$1:$2');
+    return /^I?\d+:\d+(;\d+:\d+)*$/.test(normalized) ? normalized : null;
+  } catch {
+    return null;
+  }
+}
+
+// Checks a pasted node link against the project's Figma file; returns the node id or why it can't be used
+export function validateFigmaNodeUrl(url: string, file: FigmaFileLink | undefined): { nodeId: string } | { error: string } {
+  const parsed = parseFigmaUrl(url);
+  if (!parsed) return { error: 'Paste a Figma file or design link' };
+  if (!parsed.nodeId) return { error: 'The link needs a node-id: select a frame in Figma and copy its link' };
+  if (!file) return { error: 'Link this project to a Figma file first' };
+  if (parsed.fileId !== file.fileId) return { error: `The link is to a different file than "${file.name}"` };
+  return { nodeId: parsed.nodeId };
+}
+
+export const getFigmaNodeUrl = (fileId: string, nodeId: string) =>
+  `${getFigmaFileUrl(fileId)}?node-id=${encodeURIComponent(nodeId.replace(/:/g, '-'))}`;
+
+export const createFigmaNodeLink = (fileId: string, nodeId: string, name: string | null): FigmaNodeLink => ({
+  id: crypto.randomUUID(),
+  nodeId,
+  url: getFigmaNodeUrl(fileId, nodeId),
+  name,
+  addedAt: new Date().toISOString()
+});
+
+// Opens the file in Figma (the desktop app picks up figma.com links when it's installed)
+export const getFigmaFileUrl = (fileId: string) => `https://www.figma.com/design/${fileId}`;
+
+// What a project keeps about its Figma file; without API details, the name comes from the link
+export const createFigmaFileLink = (parsed: Pick<ParsedFigmaUrl, 'fileId' | 'fileName'>, summary: FigmaFileSummary | null): FigmaFileLink => ({
+  fileId: parsed.fileId,
+  url: getFigmaFileUrl(parsed.fileId),
+  name: summary?.name ?? parsed.fileName,
+  thumbnailUrl: summary?.thumbnailUrl ?? null,
+  lastModified: summary?.lastModified ?? null,
+  linkedAt: new Date().toISOString()
+});
+
+// Calls the figma function; the token itself never comes back to the browser
+export function useFigmaApi() {
+  const authorizedFetch = useAuthorizedFetch();
+  const endpoint = getCloudEndpoint();
+
+  const getConnection = async (): Promise<FigmaConnection> => {
+    const response = await authorizedFetch(`${endpoint}/figma`);
+    const result = await readApiResponse<{ data: FigmaConnection }>(response);
+    return result.data;
+  };
+
+  const saveToken = async (token: string): Promise<FigmaConnection> => {
+    const response = await authorizedFetch(`${endpoint}/figma`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    });
+    const result = await readApiResponse<{ data: FigmaConnection }>(response);
+    return result.data;
+  };
+
+  const removeToken = async () => {
+    await readApiResponse(await authorizedFetch(`${endpoint}/figma`, { method: 'DELETE' }));
+  };
+
+  const getFile = async (fileId: string): Promise<FigmaFileSummary> => {
+    const response = await authorizedFetch(`${endpoint}/figma?fileId=${encodeURIComponent(fileId)}`);
+    const result = await readApiResponse<{ data: FigmaFileSummary }>(response);
+    return result.data;
+  };
+
+  const getNodes = async (fileId: string, nodeIds: string[]): Promise<FigmaNodeSummary[]> => {
+    const query = `fileId=${encodeURIComponent(fileId)}&nodeIds=${encodeURIComponent(nodeIds.join(','))}`;
+    const response = await authorizedFetch(`${endpoint}/figma?${query}`);
+    const result = await readApiResponse<{ data: FigmaNodeSummary[] }>(response);
+    return result.data;
+  };
+
+  // Loads and checks every layer of the file, so it's only run when asked for
+  const getAudit = async (fileId: string): Promise<FigmaAudit> => {
+    const response = await authorizedFetch(`${endpoint}/figma?fileId=${encodeURIComponent(fileId)}&report=audit`);
+    const result = await readApiResponse<{ data: Omit<FigmaAudit, 'ranAt'> }>(response);
+    return { ...result.data, ranAt: new Date().toISOString() };
+  };
+
+  return { available: !!endpoint, getConnection, saveToken, removeToken, getFile, getNodes, getAudit };
+}
@@ -0,0 +1,27 @@
+import {
+  Palette, Image, Code, Users, ListChecks, Smartphone, ShieldCheck, Rocket,
+  Accessibility, LayoutGrid, FileText, Megaphone, TestTube, Layers, Type, Globe, Lightbulb
+} from 'lucide-react';
+
+// Icons a category can pick from, keyed by the name stored on the category
+export const CATEGORY_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  palette: Palette,
+  image: Image,
+  code: Code,
+  users: Users,
+  checks: ListChecks,
+  mobile: Smartphone,
+  security: ShieldCheck,
+  launch: Rocket,
+  accessibility: Accessibility,
+  layout: LayoutGrid,
+  document: FileText,
+  marketing: Megaphone,
+  testing: TestTube,
+  layers: Layers,
+  typography: Type,
+  web: Globe,
+  idea: Lightbulb
+};
+
+export const getCategoryIcon = (name: string) => CATEGORY_ICONS[name] ?? ListChecks;
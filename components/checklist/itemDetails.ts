@@ -0,0 +1,127 @@
+import { ItemDetails, ItemEvidence, ItemLink, Project } from './types';
+
+// Screenshots are downscaled and re-encoded before they are stored inline with the project
+const MAX_EVIDENCE_DIMENSION = 1280;
+const EVIDENCE_QUALITY = 0.85;
+
+// The project document, evidence included, goes to local storage (about 5 MB for all projects),
+// the sync queue, daily snapshots and each save request (6 MB), so its screenshots share this budget
+export const MAX_PROJECT_EVIDENCE_BYTES = 2 * 1024 * 1024;
+
+export type LinkKind = 'figma' | 'github' | 'document' | 'link';
+
+export const emptyItemDetails = (): ItemDetails => ({
+  note: '',
+  links: [],
+  evidence: [],
+  updatedAt: new Date().toISOString()
+});
+
+export function getItemDetails(project: Project | null, itemId: string): ItemDetails | null {
+  return project?.itemDetails?.[itemId] ?? null;
+}
+
+export function hasItemDetails(details: ItemDetails | null): boolean {
+  return !!details && (
+    details.note.trim() !== '' ||
+    details.links.length > 0 ||
+    details.evidence.length > 0 ||
+    (details.figmaNodes?.length ?? 0) > 0
+  );
+}
+
+// Returns the project's details map with one item's details replaced
+export function withItemDetails(project: Project, itemId: string, changes: Partial<ItemDetails>) {
+  const current = project.itemDetails?.[itemId] ?? emptyItemDetails();
+  return {
+    ...project.itemDetails,
+    [itemId]: { ...current, ...changes, updatedAt: new Date().toISOString() }
+  };
+}
+
+// Data URLs are ASCII, so their length is their size in bytes
+export const getEvidenceSize = (evidence: ItemEvidence[]) =>
+  evidence.reduce((total, item) => total + item.dataUrl.length, 0);
+
+export const getProjectEvidenceSize = (project: Project | null) =>
+  Object.values(project?.itemDetails ?? {}).reduce((total, details) => total + getEvidenceSize(details.evidence), 0);
+
+export const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Accepts bare hosts like "figma.com/file/..." by assuming https; anything else is rejected
+export function normalizeUrl(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Stored URLs come from any editor's saves, so only web addresses are rendered as links
+export const getSafeHref = (url: string) => normalizeUrl(url) ?? undefined;
+
+export function getLinkKind(url: string): LinkKind {
+  const host = new URL(url).hostname;
+  if (host.endsWith('figma.com')) return 'figma';
+  if (host.endsWith('github.com') || host.endsWith('gitlab.com') || host.endsWith('bitbucket.org')) return 'github';
+  if (host.startsWith('docs.') || host.endsWith('notion.so') || host.endsWith('confluence.com')) return 'document';
+  return 'link';
+}
+
+export function createLink(url: string, label: string): ItemLink {
+  return {
+    id: crypto.randomUUID(),
+    url,
+    label: label.trim() || new URL(url).hostname
+  };
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The file is not a readable image'));
+    image.src = src;
+  });
+
+// Reads an uploaded screenshot as a JPEG no larger than MAX_EVIDENCE_DIMENSION. Small images are
+// re-encoded too: a PNG screenshot can be several MB even at 1280px.
+export async function readEvidenceFile(file: File): Promise<ItemEvidence> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Evidence must be an image');
+  }
+
+  const image = await loadImage(await readAsDataUrl(file));
+  const scale = Math.min(1, MAX_EVIDENCE_DIMENSION / Math.max(image.width, image.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Screenshots cannot be processed in this browser');
+  }
+  // JPEG has no transparency, so transparent areas would otherwise turn black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', EVIDENCE_QUALITY);
+
+  return {
+    id: crypto.randomUUID(),
+    name: file.name,
+    dataUrl,
+    addedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,56 @@
+import { ItemAssignments, Project, ProjectMember } from './types';
+
+interface MemberProfile {
+  id: string;
+  email: string;
+  name?: string;
+  picture?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+export const isProjectOwner = (project: Project, userId: string | undefined) =>
+  !project.ownerId || project.ownerId === userId;
+
+export function createMember(email: string, role: ProjectMember['role'] = 'editor', profile?: Partial<MemberProfile>): ProjectMember {
+  return {
+    email: normalizeEmail(email),
+    role,
+    name: profile?.name,
+    picture: profile?.picture,
+    addedAt: new Date().toISOString()
+  };
+}
+
+// Projects created before membership existed have no member list; their owner is the signed-in user
+export function getProjectMembers(project: Project, user: MemberProfile | null): ProjectMember[] {
+  const members = project.members ?? [];
+  if (!user || members.some(member => member.role === 'owner') || !isProjectOwner(project, user.id)) {
+    return members;
+  }
+  return [createMember(user.email, 'owner', user), ...members];
+}
+
+export const getAssignees = (assignments: ItemAssignments | undefined, itemId: string) => assignments?.[itemId] ?? [];
+
+// Drops a removed member from every item they were assigned to
+export function withoutAssignee(assignments: ItemAssignments | undefined, email: string): ItemAssignments {
+  const next: ItemAssignments = {};
+  Object.entries(assignments ?? {}).forEach(([itemId, emails]) => {
+    const remaining = emails.filter(e => e !== email);
+    if (remaining.length > 0) next[itemId] = remaining;
+  });
+  return next;
+}
+
+export const getInitials = (member: Pick<ProjectMember, 'email' | 'name'>) =>
+  (member.name || member.email)
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { mergeChecklistData, mergeItemDetails, mergeProject, resolveConflicts } from './merge';
+import { ItemDetails, Project, SignOff } from './types';
+
+const details = (note: string, updatedAt: string): ItemDetails => ({ note, links: [], evidence: [], updatedAt });
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+  id: 'project-1',
+  name: 'Checkout redesign',
+  archived: false,
+  templateId: 'default',
+  categories: [],
+  checklists: {},
+  createdAt: '2026-10-01T09:00:00.000Z',
+  updatedAt: '2026-10-01T09:00:00.000Z',
+  ...overrides
+});
+
+const signOff: SignOff = {
+  itemId: 'design-sign-off',
+  requestedBy: 'alice@example.com',
+  requestedAt: '2026-10-02T09:00:00.000Z',
+  revision: 3,
+  reviews: []
+};
+
+describe('mergeChecklistData', () => {
+  it('reports every disagreement as a conflict without a base, keeping the local value', () => {
+    expect(mergeChecklistData(null, { a: 'done', c: 'na' }, { a: 'in_progress', b: 'done', c: 'na' })).toEqual({
+      merged: { a: 'done', c: 'na' },
+      conflicts: [
+        { itemId: 'a', local: 'done', remote: 'in_progress' },
+        { itemId: 'b', local: 'todo', remote: 'done' }
+      ]
+    });
+  });
+
+  it('takes the side that changed an item', () => {
+    const base = { a: 'in_progress' as const, b: 'done' as const };
+    expect(mergeChecklistData(base, { a: 'done', b: 'done' }, { a: 'in_progress', b: 'na' })).toEqual({
+      merged: { a: 'done', b: 'na' },
+      conflicts: []
+    });
+  });
+
+  it('reports a conflict when both sides changed an item differently', () => {
+    expect(mergeChecklistData({ a: 'in_progress' }, { a: 'done' }, { a: 'na' })).toEqual({
+      merged: { a: 'done' },
+      conflicts: [{ itemId: 'a', local: 'done', remote: 'na' }]
+    });
+  });
+
+  it('accepts both sides changing an item to the same status', () => {
+    expect(mergeChecklistData({ a: 'in_progress' }, { a: 'done' }, { a: 'done' })).toEqual({
+      merged: { a: 'done' },
+      conflicts: []
+    });
+  });
+
+  it('treats a missing item as not started and leaves it out of the result', () => {
+    expect(mergeChecklistData({ a: 'done' }, {}, { a: 'done' })).toEqual({ merged: {}, conflicts: [] });
+    expect(mergeChecklistData(null, { a: 'todo' }, {})).toEqual({ merged: {}, conflicts: [] });
+  });
+});
+
+describe('mergeItemDetails', () => {
+  const older = details('Checked on mobile', '2026-10-01T10:00:00.000Z');
+  const newer = details('Checked on mobile and tablet', '2026-10-01T11:00:00.000Z');
+
+  it('keeps the most recently edited copy without a base', () => {
+    expect(mergeItemDetails(null, { a: older }, { a: newer })).toEqual({ a: newer });
+    expect(mergeItemDetails(null, { a: newer }, { a: older })).toEqual({ a: newer });
+  });
+
+  it('takes the side that changed an item', () => {
+    expect(mergeItemDetails({ a: older }, { a: older }, { a: newer })).toEqual({ a: newer });
+    expect(mergeItemDetails({ a: older }, { a: newer }, { a: older })).toEqual({ a: newer });
+  });
+
+  it('keeps the most recently edited copy when both sides changed an item', () => {
+    const remote = details('Needs another pass', '2026-10-01T12:00:00.000Z');
+    expect(mergeItemDetails({ a: older }, { a: newer }, { a: remote })).toEqual({ a: remote });
+  });
+
+  it('keeps details that only one side has', () => {
+    expect(mergeItemDetails({}, { a: older }, { b: newer })).toEqual({ a: older, b: newer });
+  });
+});
+
+describe('mergeProject', () => {
+  it('takes project fields from the side that changed them and merges items', () => {
+    const base = project({ checklists: { a: 'in_progress' } });
+    const local = project({ archived: true, checklists: { a: 'done' } });
+    const remote = project({ name: 'Checkout v2', checklists: { a: 'in_progress', b: 'na' } });
+
+    const { project: merged, conflicts } = mergeProject(base, local, remote);
+    expect(merged).toMatchObject({ name: 'Checkout v2', archived: true, checklists: { a: 'done', b: 'na' } });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('takes project fields from the most recently saved side without a base', () => {
+    const local = project({ name: 'Local name', updatedAt: '2026-10-01T10:00:00.000Z' });
+    const remote = project({ name: 'Remote name', updatedAt: '2026-10-01T11:00:00.000Z' });
+    expect(mergeProject(null, local, remote).project.name).toBe('Remote name');
+  });
+
+  it('returns the item conflicts', () => {
+    const { conflicts } = mergeProject(
+      project({ checklists: { a: 'in_progress' } }),
+      project({ checklists: { a: 'done' } }),
+      project({ checklists: { a: 'na' } })
+    );
+    expect(conflicts).toEqual([{ itemId: 'a', local: 'done', remote: 'na' }]);
+  });
+
+  it('always takes sign-off from the remote copy', () => {
+    const base = project({ signOff });
+    expect(mergeProject(base, project({ signOff }), project()).project.signOff).toBeUndefined();
+    expect(mergeProject(project(), project(), project({ signOff })).project.signOff).toEqual(signOff);
+  });
+});
+
+describe('resolveConflicts', () => {
+  it('applies the chosen side for each conflict, dropping items resolved to not started', () => {
+    const merged = project({ checklists: { a: 'done', c: 'na' } });
+    const conflicts = [
+      { itemId: 'a', local: 'done' as const, remote: 'na' as const },
+      { itemId: 'b', local: 'todo' as const, remote: 'done' as const },
+      { itemId: 'c', local: 'na' as const, remote: 'todo' as const }
+    ];
+
+    expect(resolveConflicts(merged, conflicts, { a: 'remote', c: 'remote' }).checklists).toEqual({ a: 'na' });
+  });
+});
@@ -0,0 +1,131 @@
+import { ChecklistData, ItemDetailsMap, ItemStatus, Project } from './types';
+import { getItemStatus } from './status';
+
+export interface ItemConflict {
+  itemId: string;
+  local: ItemStatus;
+  remote: ItemStatus;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface ProjectMergeResult {
+  project: Project;
+  // Items changed differently on both sides; `project` holds the local value until resolved
+  conflicts: ItemConflict[];
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Per-item three-way merge. Without a base (the project was never synced from this device)
+// every item the two sides disagree on is a conflict.
+export function mergeChecklistData(
+  base: ChecklistData | null,
+  local: ChecklistData,
+  remote: ChecklistData
+): { merged: ChecklistData; conflicts: ItemConflict[] } {
+  const merged: ChecklistData = {};
+  const conflicts: ItemConflict[] = [];
+  const itemIds = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base ?? {})]);
+
+  // An item that was never touched is the same as one marked not started
+  itemIds.forEach(itemId => {
+    const localValue = getItemStatus(local, itemId);
+    const remoteValue = getItemStatus(remote, itemId);
+    let value = localValue;
+
+    if (localValue !== remoteValue) {
+      if (base && getItemStatus(base, itemId) === localValue) {
+        value = remoteValue;
+      } else if (!(base && getItemStatus(base, itemId) === remoteValue)) {
+        conflicts.push({ itemId, local: localValue, remote: remoteValue });
+      }
+    }
+    if (value !== 'todo') merged[itemId] = value;
+  });
+
+  return { merged, conflicts };
+}
+
+// Notes, links and evidence merge per item: a side that changed an item's details wins,
+// and when both did (or there is no base) the most recently edited copy is kept
+export function mergeItemDetails(
+  base: ItemDetailsMap | null,
+  local: ItemDetailsMap,
+  remote: ItemDetailsMap
+): ItemDetailsMap {
+  const merged: ItemDetailsMap = {};
+  const itemIds = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  itemIds.forEach(itemId => {
+    const localValue = local[itemId];
+    const remoteValue = remote[itemId];
+    const baseValue = base?.[itemId];
+    let value = localValue;
+
+    if (!localValue) {
+      value = remoteValue;
+    } else if (remoteValue) {
+      if (base && sameValue(baseValue, localValue)) {
+        value = remoteValue;
+      } else if (!(base && sameValue(baseValue, remoteValue))) {
+        value = localValue.updatedAt >= remoteValue.updatedAt ? localValue : remoteValue;
+      }
+    }
+    if (value) merged[itemId] = value;
+  });
+
+  return merged;
+}
+
+// Merges a project edited on this device with the copy another device saved.
+// Project-level fields take whichever side changed them; item states merge individually.
+export function mergeProject(base: Project | null, local: Project, remote: Project): ProjectMergeResult {
+  const pick = <K extends keyof Project>(field: K): Project[K] => {
+    if (base) {
+      return sameValue(base[field], local[field]) ? remote[field] : local[field];
+    }
+    return local.updatedAt >= remote.updatedAt ? local[field] : remote[field];
+  };
+
+  const { merged, conflicts } = mergeChecklistData(base?.checklists ?? null, local.checklists, remote.checklists);
+
+  return {
+    project: {
+      ...local,
+      name: pick('name'),
+      archived: pick('archived'),
+      templateId: pick('templateId'),
+      categories: pick('categories'),
+      priorityWeights: pick('priorityWeights'),
+      members: pick('members'),
+      assignments: pick('assignments'),
+      schedule: pick('schedule'),
+      figma: pick('figma'),
+      figmaAudit: pick('figmaAudit'),
+      // Only the server writes sign-off, so its copy is always the latest
+      signOff: remote.signOff,
+      checklists: merged,
+      itemDetails: mergeItemDetails(base?.itemDetails ?? null, local.itemDetails ?? {}, remote.itemDetails ?? {}),
+      updatedAt: new Date().toISOString()
+    },
+    conflicts
+  };
+}
+
+export function resolveConflicts(
+  project: Project,
+  conflicts: ItemConflict[],
+  choices: Record<string, ConflictChoice>
+): Project {
+  const checklists = { ...project.checklists };
+  conflicts.forEach(conflict => {
+    const status = choices[conflict.itemId] === 'remote' ? conflict.remote : conflict.local;
+    if (status === 'todo') {
+      delete checklists[conflict.itemId];
+    } else {
+      checklists[conflict.itemId] = status;
+    }
+  });
+  return { ...project, checklists, updatedAt: new Date().toISOString() };
+}
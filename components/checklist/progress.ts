@@ -0,0 +1,48 @@
+import { ChecklistCategory, ChecklistData, ChecklistItem, Priority, PriorityWeights, Project } from './types';
+import { getApplicableItems, getItemStatus } from './status';
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = { high: 3, medium: 2, low: 1 };
+
+export const getPriorityWeights = (project: Project | null): PriorityWeights =>
+  ({ ...DEFAULT_PRIORITY_WEIGHTS, ...project?.priorityWeights });
+
+// Percentage of the applicable weight that is done. N/A items are left out of the denominator;
+// when every applicable item weighs nothing each one counts the same, and a list of only N/A items is at 0.
+export function getWeightedProgress(
+  items: ChecklistItem[],
+  data: ChecklistData,
+  weights: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS
+): number {
+  const weightOf = (item: ChecklistItem) => Math.max(0, weights[item.priority] ?? 0);
+
+  const applicable = getApplicableItems(items, data);
+  if (applicable.length === 0) return 0;
+
+  const doneItems = applicable.filter(item => getItemStatus(data, item.id) === 'done');
+  const total = applicable.reduce((sum, item) => sum + weightOf(item), 0);
+  if (total === 0) return Math.round((doneItems.length / applicable.length) * 100);
+
+  const done = doneItems.reduce((sum, item) => sum + weightOf(item), 0);
+  return Math.round((done / total) * 100);
+}
+
+export interface HandoffBlocker {
+  category: ChecklistCategory;
+  item: ChecklistItem;
+}
+
+// Priorities that must be done (or marked N/A) before a project is ready for handoff
+export const BLOCKING_PRIORITIES: Priority[] = ['high'];
+
+export function getHandoffBlockers(project: Project | null): HandoffBlocker[] {
+  if (!project) return [];
+  return project.categories.flatMap(category =>
+    category.items
+      .filter(item => BLOCKING_PRIORITIES.includes(item.priority))
+      .filter(item => {
+        const status = getItemStatus(project.checklists, item.id);
+        return status !== 'done' && status !== 'na';
+      })
+      .map(item => ({ category, item }))
+  );
+}
@@ -0,0 +1,88 @@
+import { ChecklistData, ChecklistTemplate, Project, ProjectWorkspace } from './types';
+import { PROFESSIONAL_TEMPLATE } from './templates';
+import { migrateChecklistData } from './status';
+
+export const DEFAULT_PROJECT_NAME = 'My Checklist';
+
+// Project ids are only unique per owner, so a project someone shared is told apart by its owner too.
+// The user's own projects carry no ownerId on this device (see withLocalOwner), so their key is the id.
+export const getProjectKey = (project: Pick<Project, 'id' | 'ownerId'>) =>
+  project.ownerId ? `${project.ownerId}/${project.id}` : project.id;
+
+// The reverse of getProjectKey, for places that only kept the key
+export function parseProjectKey(projectKey: string): Pick<Project, 'id' | 'ownerId'> {
+  const separator = projectKey.lastIndexOf('/');
+  return separator === -1
+    ? { id: projectKey }
+    : { id: projectKey.slice(separator + 1), ownerId: projectKey.slice(0, separator) };
+}
+
+// The server stamps every copy with its owner; the user's own projects drop it so their key
+// stays the same before and after their first sync
+export function withLocalOwner(project: Project, userId: string | undefined): Project {
+  if (!project.ownerId || project.ownerId !== userId) return project;
+  const { ownerId: _ownerId, ...rest } = project;
+  return rest;
+}
+
+export function createProject(
+  name: string,
+  template: ChecklistTemplate = PROFESSIONAL_TEMPLATE,
+  checklists: ChecklistData = {}
+): Project {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || DEFAULT_PROJECT_NAME,
+    archived: false,
+    templateId: template.id,
+    categories: JSON.parse(JSON.stringify(template.categories)),
+    checklists,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function duplicateProject(project: Project): Project {
+  return {
+    ...createProject(`${project.name} (copy)`, PROFESSIONAL_TEMPLATE, { ...project.checklists }),
+    templateId: project.templateId,
+    categories: JSON.parse(JSON.stringify(project.categories)),
+    itemDetails: JSON.parse(JSON.stringify(project.itemDetails ?? {})),
+    priorityWeights: project.priorityWeights,
+    figma: project.figma,
+    figmaAudit: project.figmaAudit
+  };
+}
+
+// Brings projects saved by earlier versions up to date: projects from before templates existed
+// were all on the built-in checklist, and item states used to be booleans
+export function migrateProject(project: Project): Project {
+  const categories = project.categories ?? JSON.parse(JSON.stringify(PROFESSIONAL_TEMPLATE.categories));
+  return {
+    ...project,
+    templateId: project.categories ? project.templateId : PROFESSIONAL_TEMPLATE.id,
+    categories,
+    checklists: migrateChecklistData(project.checklists)
+  };
+}
+
+export function updateProject(workspace: ProjectWorkspace, projectKey: string, changes: Partial<Project>): ProjectWorkspace {
+  return {
+    ...workspace,
+    projects: workspace.projects.map(project =>
+      getProjectKey(project) === projectKey
+        ? { ...project, ...changes, updatedAt: new Date().toISOString() }
+        : project
+    )
+  };
+}
+
+// Keeps the active project pointing at something that exists and is not archived
+export function ensureActiveProject(workspace: ProjectWorkspace): ProjectWorkspace {
+  const active = workspace.projects.find(p => getProjectKey(p) === workspace.activeProjectId);
+  if (active && !active.archived) return workspace;
+
+  const fallback = workspace.projects.find(p => !p.archived) ?? null;
+  return { ...workspace, activeProjectId: fallback ? getProjectKey(fallback) : null };
+}
@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '../AuthContext';
+import { ItemStatus, Project } from './types';
+import { getCloudEndpoint, readApiResponse, useAuthorizedFetch } from './api';
+
+// Someone else with the project open, and the category tab they're looking at
+export interface Viewer {
+  clientId: string;
+  email: string;
+  name?: string;
+  picture?: string;
+  tab: string | null;
+}
+
+// An item status change made by another viewer; `from` is what they saw before changing it
+export interface RemoteChange {
+  clientId: string;
+  author: { email: string; name?: string };
+  itemId: string;
+  from: ItemStatus;
+  to: ItemStatus;
+}
+
+// Base URL of an optional push server for live updates (see netlify/realtime-dev-server.js for the protocol).
+// Without one, live updates poll the cloud endpoint's live function.
+export const REALTIME_URL_STORAGE_KEY = 'checklist-realtime-url';
+
+export const getRealtimeUrl = (): string =>
+  localStorage.getItem(REALTIME_URL_STORAGE_KEY) || import.meta.env.VITE_REALTIME_URL || '';
+
+// Identifies this browser tab, so a user with the project open twice shows up twice
+const CLIENT_ID = crypto.randomUUID();
+
+const RECONNECT_DELAY_MS = 5000;
+// Well inside the live function's presence expiry, so viewers don't flicker between polls
+const POLL_INTERVAL_MS = 3000;
+
+interface LivePoll {
+  viewers: Viewer[];
+  changes: (RemoteChange & { id: string })[];
+  cursor: string;
+}
+
+// Joins the project's live channel: reports which tab this user is on, and hands incoming
+// item changes to `onRemoteChange`. Uses the push server when one is configured, otherwise polls
+// the cloud endpoint; does nothing when neither is set up.
+export function useLiveProject(
+  project: Project | null,
+  activeTab: string,
+  onRemoteChange: (change: RemoteChange) => void,
+  enabled: boolean
+) {
+  const { user, getIdToken } = useAuth();
+  const authorizedFetch = useAuthorizedFetch();
+  const [viewers, setViewers] = useState<Viewer[]>([]);
+  const [connected, setConnected] = useState(false);
+  const activeTabRef = useRef(activeTab);
+  activeTabRef.current = activeTab;
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+
+  const realtimeUrl = getRealtimeUrl();
+  const endpoint = getCloudEndpoint();
+  const ownerId = project?.ownerId ?? user?.id;
+  const channelUrl = enabled && realtimeUrl && project && ownerId
+    ? `${realtimeUrl}/channels/${encodeURIComponent(ownerId)}/${encodeURIComponent(project.id)}`
+    : null;
+  // The live function works out the owner itself for the caller's own projects, like the other functions
+  const pollParams = enabled && !channelUrl && endpoint && project
+    ? { projectId: project.id, ...(project.ownerId ? { ownerId: project.ownerId } : {}) }
+    : null;
+  const pollKey = pollParams ? JSON.stringify(pollParams) : null;
+
+  useEffect(() => {
+    if (!channelUrl) return;
+
+    let source: EventSource | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const connect = async () => {
+      // EventSource can't send headers, so the ID token goes in the query string
+      const token = await getIdToken();
+      if (closed || !token) return;
+
+      const params = new URLSearchParams({ token, clientId: CLIENT_ID, tab: activeTabRef.current });
+      source = new EventSource(`${channelUrl}/events?${params}`);
+      source.onopen = () => setConnected(true);
+      source.addEventListener('presence', (event) => {
+        const { viewers } = JSON.parse((event as MessageEvent).data) as { viewers: Viewer[] };
+        setViewers(viewers.filter(viewer => viewer.clientId !== CLIENT_ID));
+      });
+      source.addEventListener('change', (event) => {
+        onRemoteChangeRef.current(JSON.parse((event as MessageEvent).data));
+      });
+      // Reconnect ourselves rather than letting EventSource retry, so an expired token gets refreshed
+      source.onerror = () => {
+        source?.close();
+        setConnected(false);
+        setViewers([]);
+        if (!closed) reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      source?.close();
+      if (reconnectTimeout) clearTimeout(reconnectTimeout);
+      setConnected(false);
+      setViewers([]);
+    };
+  }, [channelUrl]);
+
+  useEffect(() => {
+    if (!pollParams) return;
+
+    let cursor: string | null = null;
+    // Polls overlap so late-listed changes aren't missed; ids from the last one tell the repeats apart
+    let lastChangeIds = new Set<string>();
+    let pollTimeout: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const poll = async () => {
+      let delay = POLL_INTERVAL_MS;
+      // Background tabs stop polling, so they drop out of presence until they're looked at again
+      if (document.visibilityState === 'visible') {
+        try {
+          const params = new URLSearchParams({ ...pollParams, clientId: CLIENT_ID, tab: activeTabRef.current });
+          if (cursor) params.set('since', cursor);
+          const result = await readApiResponse<{ data: LivePoll }>(await authorizedFetch(`${endpoint}/live?${params}`));
+          if (closed) return;
+          cursor = result.data.cursor;
+          setConnected(true);
+          setViewers(result.data.viewers.filter(viewer => viewer.clientId !== CLIENT_ID));
+          const { changes } = result.data;
+          changes
+            .filter(change => !lastChangeIds.has(change.id))
+            .forEach(({ id: _id, ...change }) => onRemoteChangeRef.current(change));
+          lastChangeIds = new Set(changes.map(change => change.id));
+        } catch (err) {
+          console.warn('Live updates poll failed:', err);
+          setConnected(false);
+          setViewers([]);
+          delay = RECONNECT_DELAY_MS;
+        }
+      }
+      if (!closed) pollTimeout = setTimeout(poll, delay);
+    };
+
+    poll();
+    return () => {
+      closed = true;
+      if (pollTimeout) clearTimeout(pollTimeout);
+      setConnected(false);
+      setViewers([]);
+      sendMessage(`${endpoint}/live`, { ...pollParams, type: 'leave' });
+    };
+  }, [pollKey]);
+
+  const sendMessage = async (url: string, message: object) => {
+    try {
+      await authorizedFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientId: CLIENT_ID, ...message })
+      });
+    } catch (err) {
+      // Live updates are best effort; the regular sync still carries every change
+      console.warn('Failed to publish live update:', err);
+    }
+  };
+
+  const publish = (message: object) => {
+    if (!connected) return;
+    if (channelUrl) {
+      sendMessage(`${channelUrl}/messages`, message);
+    } else if (pollParams) {
+      sendMessage(`${endpoint}/live`, { ...pollParams, ...message });
+    }
+  };
+
+  useEffect(() => {
+    publish({ type: 'presence', tab: activeTab });
+  }, [activeTab, connected]);
+
+  const publishChange = (itemId: string, from: ItemStatus, to: ItemStatus) =>
+    publish({ type: 'change', itemId, from, to });
+
+  return { connected, viewers, publishChange };
+}
@@ -0,0 +1,72 @@
+import { ItemStatus, Project, ProjectSchedule } from './types';
+import { getItemStatus } from './status';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Due dates are calendar days in the user's time zone, stored as YYYY-MM-DD
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export const formatDateKey = (dateKey: string) =>
+  parseDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Whole days from today until the date; negative once it has passed
+export const daysUntil = (dateKey: string, today: Date = new Date()) =>
+  Math.round((parseDateKey(dateKey).getTime() - parseDateKey(toDateKey(today)).getTime()) / DAY_MS);
+
+export const emptySchedule = (): ProjectSchedule => ({ categories: {}, items: {} });
+
+export const getSchedule = (project: Project | null): ProjectSchedule => ({
+  ...emptySchedule(),
+  ...project?.schedule
+});
+
+// An item without its own date is due with its category
+export function getItemDueDate(project: Project | null, categoryId: string, itemId: string): string | null {
+  const schedule = getSchedule(project);
+  return schedule.items[itemId] ?? schedule.categories[categoryId] ?? null;
+}
+
+export const isOverdue = (dueDate: string | null, status: ItemStatus, today: Date = new Date()) =>
+  dueDate !== null && status !== 'done' && status !== 'na' && daysUntil(dueDate, today) < 0;
+
+export function countOverdueItems(project: Project | null, today: Date = new Date()): number {
+  if (!project) return 0;
+  return project.categories.reduce((count, category) =>
+    count + category.items.filter(item =>
+      isOverdue(getItemDueDate(project, category.id, item.id), getItemStatus(project.checklists, item.id), today)
+    ).length,
+  0);
+}
+
+// Returns the schedule with one entry set, or removed when the date is null
+export function withDueDate(
+  schedule: ProjectSchedule,
+  scope: 'categories' | 'items',
+  id: string,
+  dateKey: string | null
+): ProjectSchedule {
+  const entries = { ...schedule[scope] };
+  if (dateKey) {
+    entries[id] = dateKey;
+  } else {
+    delete entries[id];
+  }
+  return { ...schedule, [scope]: entries };
+}
+
+export function describeCountdown(dateKey: string, today: Date = new Date()): string {
+  const days = daysUntil(dateKey, today);
+  if (days === 0) return 'Handoff is today';
+  if (days === 1) return '1 day to handoff';
+  if (days > 1) return `${days} days to handoff`;
+  return days === -1 ? 'Handoff was 1 day ago' : `Handoff was ${-days} days ago`;
+}
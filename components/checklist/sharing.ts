@@ -0,0 +1,33 @@
+import { Project } from './types';
+
+// A read-only link looks like `https://app/?share=<token>&api=<endpoint>`; the endpoint travels with
+// the link because the stakeholder opening it has no cloud settings of their own
+const SHARE_PARAM = 'share';
+const API_PARAM = 'api';
+
+export interface ShareLink {
+  token: string;
+  projectId: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// The subset of a project the share function hands out
+export type ReadOnlyProject = Pick<
+  Project,
+  'id' | 'name' | 'templateId' | 'categories' | 'checklists' | 'priorityWeights' | 'schedule' | 'createdAt' | 'updatedAt'
+>;
+
+export function buildShareUrl(token: string, endpoint: string): string {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(SHARE_PARAM, token);
+  url.searchParams.set(API_PARAM, endpoint);
+  return url.toString();
+}
+
+export function getSharedLinkParams(search: string = window.location.search): { token: string; endpoint: string } | null {
+  const params = new URLSearchParams(search);
+  const token = params.get(SHARE_PARAM);
+  if (!token) return null;
+  return { token, endpoint: params.get(API_PARAM) || `${window.location.origin}/.netlify/functions` };
+}
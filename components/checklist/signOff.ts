@@ -0,0 +1,37 @@
+import { ApprovalDecision, ItemStatus, Project, SignOff } from './types';
+
+// The item that is completed by stakeholder sign-off instead of by hand
+export const SIGN_OFF_ITEM_ID = 'stakeholder-approval';
+
+// Without a sign-off request the item can be worked on, but only approvals can mark it done
+export const MANUAL_SIGN_OFF_STATUSES: ItemStatus[] = ['todo', 'in_progress', 'na'];
+
+const DECISION_LABELS: Record<ApprovalDecision, string> = {
+  pending: 'Awaiting review',
+  approved: 'Approved',
+  changes_requested: 'Changes requested'
+};
+
+export const getDecisionLabel = (decision: ApprovalDecision) => DECISION_LABELS[decision];
+
+export const getSignOff = (project: Project | null): SignOff | null => project?.signOff ?? null;
+
+export const countApprovals = (signOff: SignOff) =>
+  signOff.reviews.filter(review => review.decision === 'approved').length;
+
+export const isFullyApproved = (signOff: SignOff) =>
+  signOff.reviews.length > 0 && countApprovals(signOff) === signOff.reviews.length;
+
+// Applies a sign-off returned by the server the same way the server does: done once everyone approved,
+// and never done without a sign-off
+export function withSignOff(project: Project, signOff: SignOff | null): Partial<Project> {
+  if (!signOff) {
+    if (project.checklists[SIGN_OFF_ITEM_ID] !== 'done') return { signOff: undefined };
+    const { [SIGN_OFF_ITEM_ID]: _done, ...checklists } = project.checklists;
+    return { signOff: undefined, checklists };
+  }
+  return {
+    signOff,
+    checklists: { ...project.checklists, [signOff.itemId]: isFullyApproved(signOff) ? 'done' : 'in_progress' }
+  };
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Project, ProjectSnapshot } from './types';
+import { getCloudEndpoint, readApiResponse, useAuthorizedFetch } from './api';
+import { getStatusLabel } from './status';
+
+type AuthorizedFetch = ReturnType<typeof useAuthorizedFetch>;
+
+export const SNAPSHOT_KIND_LABELS: Record<ProjectSnapshot['kind'], string> = {
+  manual: 'Named',
+  import: 'Before import',
+  daily: 'Daily',
+  restore: 'Before restore'
+};
+
+// One way the snapshot differs from the project as it is now
+export interface SnapshotDifference {
+  label: string;
+  now: string;
+  then: string;
+}
+
+const describeList = (emails: string[] | undefined) => (emails && emails.length > 0 ? emails.join(', ') : 'nobody');
+
+// What restoring the snapshot would change, item by item, with the item's current wording where it still exists
+export function diffSnapshot(snapshot: Project, current: Project): SnapshotDifference[] {
+  const differences: SnapshotDifference[] = [];
+  const itemsOf = (project: Project) => new Map(project.categories.flatMap(category => category.items).map(item => [item.id, item]));
+  const currentItems = itemsOf(current);
+  const snapshotItems = itemsOf(snapshot);
+  const itemText = (itemId: string) => (currentItems.get(itemId) ?? snapshotItems.get(itemId))?.text ?? itemId;
+
+  if (snapshot.name !== current.name) {
+    differences.push({ label: 'Project name', now: current.name, then: snapshot.name });
+  }
+
+  currentItems.forEach((item, itemId) => {
+    if (!snapshotItems.has(itemId)) differences.push({ label: item.text, now: 'On the checklist', then: 'Not on the checklist' });
+  });
+  snapshotItems.forEach((item, itemId) => {
+    if (!currentItems.has(itemId)) differences.push({ label: item.text, now: 'Not on the checklist', then: 'On the checklist' });
+  });
+
+  const sharedIds = [...currentItems.keys()].filter(itemId => snapshotItems.has(itemId));
+  sharedIds.forEach(itemId => {
+    const now = current.checklists[itemId] ?? 'todo';
+    const then = snapshot.checklists[itemId] ?? 'todo';
+    if (now !== then) {
+      differences.push({ label: itemText(itemId), now: getStatusLabel(now), then: getStatusLabel(then) });
+    }
+
+    const nowNote = current.itemDetails?.[itemId]?.note ?? '';
+    const thenNote = snapshot.itemDetails?.[itemId]?.note ?? '';
+    if (nowNote !== thenNote) {
+      differences.push({ label: `${itemText(itemId)} (note)`, now: nowNote || 'No note', then: thenNote || 'No note' });
+    }
+
+    const nowAssigned = describeList(current.assignments?.[itemId]);
+    const thenAssigned = describeList(snapshot.assignments?.[itemId]);
+    if (nowAssigned !== thenAssigned) {
+      differences.push({ label: `${itemText(itemId)} (assignees)`, now: nowAssigned, then: thenAssigned });
+    }
+  });
+
+  return differences;
+}
+
+// Asks the server to keep a copy of the project; `import` copies are taken just before an import replaces it
+export async function createProjectSnapshot(
+  authorizedFetch: AuthorizedFetch,
+  endpoint: string,
+  project: Project,
+  kind: 'manual' | 'import',
+  name?: string
+): Promise<ProjectSnapshot> {
+  const response = await authorizedFetch(`${endpoint}/snapshots`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'create', projectId: project.id, ownerId: project.ownerId, kind, name, data: project })
+  });
+  const result = await readApiResponse<{ data: ProjectSnapshot }>(response);
+  return result.data;
+}
+
+// Lists a project's snapshots when the snapshot dialog opens, and opens, names, restores or deletes them
+export function useProjectSnapshots(project: Project | null, enabled: boolean) {
+  const authorizedFetch = useAuthorizedFetch();
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endpoint = getCloudEndpoint();
+  const available = enabled && !!endpoint && !!project;
+  const query = project
+    ? `?projectId=${project.id}${project.ownerId ? `&ownerId=${encodeURIComponent(project.ownerId)}` : ''}`
+    : '';
+
+  useEffect(() => {
+    setSnapshots([]);
+  }, [project?.id]);
+
+  const refresh = async () => {
+    if (!available) return;
+    setIsLoading(true);
+    try {
+      const response = await authorizedFetch(`${endpoint}/snapshots${query}`);
+      const result = await readApiResponse<{ data: ProjectSnapshot[] }>(response);
+      setSnapshots(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const create = async (name: string) => {
+    if (!project) return;
+    const snapshot = await createProjectSnapshot(authorizedFetch, endpoint, project, 'manual', name);
+    setSnapshots(prev => [snapshot, ...prev]);
+  };
+
+  const load = async (snapshotId: string): Promise<ProjectSnapshot> => {
+    const response = await authorizedFetch(`${endpoint}/snapshots${query}&snapshotId=${snapshotId}`);
+    const result = await readApiResponse<{ data: ProjectSnapshot }>(response);
+    return result.data;
+  };
+
+  // The server writes the restored project as a new revision and returns it
+  const restore = async (snapshotId: string): Promise<{ data: Project; revision: number }> => {
+    const response = await authorizedFetch(`${endpoint}/snapshots`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'restore', projectId: project?.id, ownerId: project?.ownerId, snapshotId })
+    });
+    const result = await readApiResponse<{ data: Project; revision: number }>(response);
+    await refresh();
+    return result;
+  };
+
+  const remove = async (snapshotId: string) => {
+    const response = await authorizedFetch(`${endpoint}/snapshots${query}&snapshotId=${snapshotId}`, { method: 'DELETE' });
+    await readApiResponse(response);
+    setSnapshots(prev => prev.filter(snapshot => snapshot.id !== snapshotId));
+  };
+
+  return { available, snapshots, isLoading, error, refresh, create, load, restore, remove };
+}
@@ -0,0 +1,34 @@
+import { ChecklistData, ChecklistItem, ItemStatus } from './types';
+
+export const ITEM_STATUSES: { value: ItemStatus; label: string }[] = [
+  { value: 'todo', label: 'Not started' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'done', label: 'Done' },
+  { value: 'na', label: 'Not applicable' }
+];
+
+export const getStatusLabel = (status: ItemStatus) =>
+  ITEM_STATUSES.find(s => s.value === status)?.label ?? status;
+
+// Items that were never touched have no entry and count as not started
+export const getItemStatus = (data: ChecklistData, itemId: string): ItemStatus => data[itemId] ?? 'todo';
+
+// Items marked N/A don't count towards progress in either direction
+export const getApplicableItems = (items: ChecklistItem[], data: ChecklistData) =>
+  items.filter(item => getItemStatus(data, item.id) !== 'na');
+
+const isItemStatus = (value: unknown): value is ItemStatus =>
+  ITEM_STATUSES.some(s => s.value === value);
+
+// Checklists saved before statuses existed stored a boolean per item
+export function migrateChecklistData(data: Record<string, unknown> | null | undefined): ChecklistData {
+  const migrated: ChecklistData = {};
+  Object.entries(data ?? {}).forEach(([itemId, value]) => {
+    if (value === true) {
+      migrated[itemId] = 'done';
+    } else if (isItemStatus(value) && value !== 'todo') {
+      migrated[itemId] = value;
+    }
+  });
+  return migrated;
+}
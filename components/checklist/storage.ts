@@ -0,0 +1,75 @@
+import { ChecklistData, Project, ProjectWorkspace } from './types';
+import { createProject, DEFAULT_PROJECT_NAME, ensureActiveProject, getProjectKey, migrateProject, withLocalOwner } from './projects';
+import { migrateChecklistData } from './status';
+import { PROFESSIONAL_TEMPLATE } from './templates';
+
+// Every locally stored value for a user lives under `checklist-${userId}-${suffix}`
+export const storageKey = (userId: string | undefined, suffix: string) =>
+  userId ? `checklist-${userId}-${suffix}` : `checklist-${suffix}`;
+
+// Keys written by earlier versions of ChecklistApp
+const legacyKeys = {
+  singleChecklist: (userId: string) => `checklist-data-${userId}`,
+  projectIndex: (userId: string) => `checklist-projects-${userId}`,
+  project: (userId: string, projectId: string) => `checklist-project-${userId}-${projectId}`
+};
+
+export function saveLocalWorkspace(userId: string | undefined, workspace: ProjectWorkspace) {
+  localStorage.setItem(storageKey(userId, 'data'), JSON.stringify(workspace));
+  localStorage.setItem(storageKey(userId, 'last-modified'), new Date().toISOString());
+}
+
+export function loadLocalWorkspace(userId: string): ProjectWorkspace {
+  const savedData = localStorage.getItem(storageKey(userId, 'data'));
+  if (savedData) {
+    try {
+      const parsed: ProjectWorkspace = JSON.parse(savedData);
+      if (Array.isArray(parsed.projects)) {
+        const projects = parsed.projects.map(project => withLocalOwner(migrateProject(project), userId));
+        return ensureActiveProject({ ...parsed, projects });
+      }
+    } catch (err) {
+      console.error('Failed to load from local storage:', err);
+    }
+  }
+
+  const workspace = migrateLegacyWorkspace(userId);
+  saveLocalWorkspace(userId, workspace);
+  return workspace;
+}
+
+// Moves data from the per-project keys, or the single-checklist key before that, into one workspace entry
+function migrateLegacyWorkspace(userId: string): ProjectWorkspace {
+  const storedIndex = localStorage.getItem(legacyKeys.projectIndex(userId));
+  if (storedIndex) {
+    try {
+      const index: { activeProjectId: string | null; projectIds: string[] } = JSON.parse(storedIndex);
+      const projects = index.projectIds
+        .map(id => localStorage.getItem(legacyKeys.project(userId, id)))
+        .filter((value): value is string => value !== null)
+        .map(value => migrateProject(JSON.parse(value) as Project));
+
+      index.projectIds.forEach(id => localStorage.removeItem(legacyKeys.project(userId, id)));
+      localStorage.removeItem(legacyKeys.projectIndex(userId));
+      if (projects.length > 0) {
+        return ensureActiveProject({ activeProjectId: index.activeProjectId, projects });
+      }
+    } catch (err) {
+      console.error('Failed to migrate saved projects:', err);
+    }
+  }
+
+  let checklists: ChecklistData = {};
+  const legacyData = localStorage.getItem(legacyKeys.singleChecklist(userId));
+  if (legacyData) {
+    try {
+      checklists = migrateChecklistData(JSON.parse(legacyData).checklists);
+    } catch (err) {
+      console.error('Failed to parse saved checklist data:', err);
+    }
+    localStorage.removeItem(legacyKeys.singleChecklist(userId));
+  }
+
+  const project = createProject(DEFAULT_PROJECT_NAME, PROFESSIONAL_TEMPLATE, checklists);
+  return { activeProjectId: getProjectKey(project), projects: [project] };
+}
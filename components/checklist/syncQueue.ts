@@ -0,0 +1,98 @@
+import { Project } from './types';
+
+// One pending write to `/save`. Operations are replayed in `seq` order; a null project is a deletion.
+export interface QueuedOperation {
+  seq: number;
+  userId: string;
+  // getProjectKey of the project; operations queued before that have the bare id in projectId
+  projectKey: string;
+  project: Project | null;
+  queuedAt: string;
+}
+
+const DB_NAME = 'design-checklist-sync';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      // Let the next call try again rather than caching the failure
+      databasePromise = null;
+      throw err;
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await requestToPromise(run(transaction.objectStore(STORE_NAME)));
+  await completed;
+  return result;
+}
+
+export async function enqueueOperation(userId: string, projectKey: string, project: Project | null): Promise<void> {
+  await withStore('readwrite', store => store.add({
+    userId,
+    projectKey,
+    project,
+    queuedAt: new Date().toISOString()
+  }));
+}
+
+// Pending operations for a user, oldest first
+export async function getQueuedOperations(userId: string): Promise<QueuedOperation[]> {
+  const operations = await withStore<QueuedOperation[]>('readonly', store =>
+    store.index('userId').getAll(IDBKeyRange.only(userId))
+  );
+  return operations
+    .map(operation => ({ ...operation, projectKey: operation.projectKey ?? (operation as { projectId?: string }).projectId }))
+    .sort((a, b) => a.seq - b.seq);
+}
+
+export async function removeOperation(seq: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(seq));
+}
+
+// Drops every pending operation for a project, e.g. once a conflict merge has folded them in
+export async function removeProjectOperations(userId: string, projectKey: string): Promise<void> {
+  const operations = await getQueuedOperations(userId);
+  await Promise.all(operations
+    .filter(operation => operation.projectKey === projectKey)
+    .map(operation => removeOperation(operation.seq)));
+}
+
+// The most recent queued state of each project, so unchanged projects are not queued twice
+export function latestQueuedStates(operations: QueuedOperation[]): Map<string, Project | null> {
+  const latest = new Map<string, Project | null>();
+  operations.forEach(operation => latest.set(operation.projectKey, operation.project));
+  return latest;
+}
@@ -0,0 +1,131 @@
+import { ChecklistCategory, ChecklistItem, ChecklistTemplate } from './types';
+
+const templatesKey = (userId: string) => `checklist-${userId}-templates`;
+const legacyTemplatesKey = (userId: string) => `checklist-templates-${userId}`;
+
+export const PROFESSIONAL_TEMPLATE_ID = 'professional';
+
+// The checklist the app has always shipped with
+export const PROFESSIONAL_TEMPLATE: ChecklistTemplate = {
+  id: PROFESSIONAL_TEMPLATE_ID,
+  name: 'Professional',
+  builtIn: true,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  categories: [
+    {
+      id: 'design',
+      title: 'Design System & Standards',
+      icon: 'palette',
+      description: 'Core design requirements and system documentation',
+      items: [
+        { id: 'design-system', text: 'Design system components documented and standardized', priority: 'high' },
+        { id: 'responsive-breakpoints', text: 'Responsive breakpoints defined for all screen sizes', priority: 'high' },
+        { id: 'accessibility-wcag', text: 'WCAG 2.1 AA accessibility standards implemented', priority: 'high' },
+        { id: 'color-palette', text: 'Color palette with usage guidelines and contrast ratios', priority: 'medium' },
+        { id: 'typography-system', text: 'Typography scale, hierarchy, and web font implementation', priority: 'medium' },
+        { id: 'spacing-grid', text: 'Consistent spacing system and 8px/4px grid alignment', priority: 'medium' },
+        { id: 'component-states', text: 'All interactive component states designed (hover, focus, active, disabled)', priority: 'high' },
+        { id: 'dark-mode', text: 'Dark mode variants and theme switching implemented', priority: 'low' },
+        { id: 'motion-guidelines', text: 'Animation and transition guidelines documented', priority: 'low' }
+      ]
+    },
+    {
+      id: 'assets',
+      title: 'Asset Preparation & Delivery',
+      icon: 'image',
+      description: 'All design assets optimized and ready for development',
+      items: [
+        { id: 'icons-svg-optimized', text: 'All icons exported as optimized SVG with consistent sizing', priority: 'high' },
+        { id: 'images-webp', text: 'Images optimized in WebP format with fallbacks', priority: 'high' },
+        { id: 'logo-variations', text: 'Logo variations provided (horizontal, stacked, monogram, favicon)', priority: 'high' },
+        { id: 'custom-fonts', text: 'Custom fonts provided with proper licensing and formats', priority: 'medium' },
+        { id: 'illustrations-vector', text: 'Illustrations provided as scalable vector formats', priority: 'medium' },
+        { id: 'photography-optimized', text: 'Photography assets cropped and optimized for all breakpoints', priority: 'medium' },
+        { id: 'asset-organization', text: 'Asset folder structure organized and clearly labeled', priority: 'low' },
+        { id: 'retina-variants', text: '2x and 3x resolution variants for high-DPI displays', priority: 'low' }
+      ]
+    },
+    {
+      id: 'handoff',
+      title: 'Developer Handoff & Documentation',
+      icon: 'code',
+      description: 'Complete specifications and documentation for development team',
+      items: [
+        { id: 'design-specs', text: 'Detailed design specifications with measurements and spacing', priority: 'high' },
+        { id: 'interaction-documentation', text: 'All interactions, animations, and micro-interactions documented', priority: 'high' },
+        { id: 'component-documentation', text: 'Component usage guidelines and implementation notes', priority: 'high' },
+        { id: 'edge-cases-documented', text: 'Edge cases, error states, and empty states designed', priority: 'high' },
+        { id: 'responsive-behavior', text: 'Responsive behavior and breakpoint specifications documented', priority: 'high' },
+        { id: 'performance-requirements', text: 'Performance requirements and optimization guidelines', priority: 'medium' },
+        { id: 'browser-compatibility', text: 'Browser compatibility requirements specified', priority: 'medium' },
+        { id: 'implementation-timeline', text: 'Development timeline and milestone deliverables defined', priority: 'medium' },
+        { id: 'qa-checklist', text: 'Quality assurance checklist and testing scenarios provided', priority: 'low' }
+      ]
+    },
+    {
+      id: 'collaboration',
+      title: 'Team Collaboration & Review',
+      icon: 'users',
+      description: 'Stakeholder review and team collaboration processes',
+      items: [
+        { id: 'stakeholder-approval', text: 'Final design approval from all key stakeholders', priority: 'high' },
+        { id: 'design-review', text: 'Design review completed with development team', priority: 'high' },
+        { id: 'content-review', text: 'Content review and copywriting finalized', priority: 'high' },
+        { id: 'brand-compliance', text: 'Brand guidelines compliance verified', priority: 'medium' },
+        { id: 'legal-compliance', text: 'Legal and regulatory compliance checked', priority: 'medium' },
+        { id: 'user-testing', text: 'User testing completed and feedback incorporated', priority: 'medium' },
+        { id: 'feedback-incorporated', text: 'All feedback from reviews incorporated into final design', priority: 'high' },
+        { id: 'handoff-meeting', text: 'Handoff meeting scheduled and conducted with dev team', priority: 'medium' }
+      ]
+    }
+  ]
+};
+
+// Short random suffix keeps ids unique when two items share the same text
+const slugId = (text: string) => {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 32);
+  return `${slug || 'item'}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export function createCategory(title = 'New category'): ChecklistCategory {
+  return { id: slugId(title), title, icon: 'checks', description: '', items: [] };
+}
+
+export function createItem(text = 'New checklist item'): ChecklistItem {
+  return { id: slugId(text), text, priority: 'medium' };
+}
+
+export function createTemplate(name: string, categories: ChecklistCategory[]): ChecklistTemplate {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || 'Untitled template',
+    builtIn: false,
+    // Deep copy so editing the new template never touches its source
+    categories: JSON.parse(JSON.stringify(categories)),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function findTemplate(templates: ChecklistTemplate[], templateId: string): ChecklistTemplate {
+  return templates.find(t => t.id === templateId) ?? PROFESSIONAL_TEMPLATE;
+}
+
+// Built-in templates first, followed by the user's own
+export function loadTemplates(userId: string): ChecklistTemplate[] {
+  try {
+    const stored = localStorage.getItem(templatesKey(userId)) ?? localStorage.getItem(legacyTemplatesKey(userId));
+    const custom: ChecklistTemplate[] = stored ? JSON.parse(stored) : [];
+    return [PROFESSIONAL_TEMPLATE, ...custom];
+  } catch (err) {
+    console.error('Failed to load saved templates:', err);
+    return [PROFESSIONAL_TEMPLATE];
+  }
+}
+
+export function saveTemplates(userId: string, templates: ChecklistTemplate[]) {
+  localStorage.setItem(templatesKey(userId), JSON.stringify(templates.filter(t => !t.builtIn)));
+  localStorage.removeItem(legacyTemplatesKey(userId));
+}
@@ -0,0 +1,231 @@
+export type Priority = 'high' | 'medium' | 'low';
+
+// How much an item of each priority counts towards progress
+export type PriorityWeights = Record<Priority, number>;
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  priority: Priority;
+}
+
+export interface ChecklistCategory {
+  id: string;
+  title: string;
+  // Key into CATEGORY_ICONS, so categories stay serializable
+  icon: string;
+  description: string;
+  items: ChecklistItem[];
+}
+
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  categories: ChecklistCategory[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ItemStatus = 'todo' | 'in_progress' | 'done' | 'na';
+
+// Status per item id; items without an entry are not started
+export interface ChecklistData {
+  [key: string]: ItemStatus;
+}
+
+export interface ItemLink {
+  id: string;
+  url: string;
+  label: string;
+}
+
+// An uploaded screenshot, stored inline as a data URL so it travels with the project
+export interface ItemEvidence {
+  id: string;
+  name: string;
+  dataUrl: string;
+  addedAt: string;
+}
+
+// A frame or other node in the project's linked Figma file; the name is as of when it was added
+export interface FigmaNodeLink {
+  id: string;
+  nodeId: string;
+  url: string;
+  name: string | null;
+  addedAt: string;
+}
+
+// Why an item is in the state it is: a note (light markdown), links and evidence
+export interface ItemDetails {
+  note: string;
+  links: ItemLink[];
+  evidence: ItemEvidence[];
+  // Absent on items saved before Figma nodes could be linked
+  figmaNodes?: FigmaNodeLink[];
+  updatedAt: string;
+}
+
+export interface ItemDetailsMap {
+  [itemId: string]: ItemDetails;
+}
+
+// Someone with access to a project, identified by their Google account email
+export interface ProjectMember {
+  email: string;
+  role: 'owner' | 'editor';
+  name?: string;
+  picture?: string;
+  addedAt: string;
+}
+
+// Emails of the members assigned to each item
+export interface ItemAssignments {
+  [itemId: string]: string[];
+}
+
+// Optional dates (YYYY-MM-DD) the project is working towards
+export interface ProjectSchedule {
+  targetHandoffDate?: string;
+  categories: { [categoryId: string]: string };
+  items: { [itemId: string]: string };
+}
+
+export type ApprovalDecision = 'pending' | 'approved' | 'changes_requested';
+
+// One reviewer's answer to a sign-off request
+export interface ApprovalReview {
+  email: string;
+  name?: string;
+  decision: ApprovalDecision;
+  comment?: string;
+  respondedAt?: string;
+  // Project revision the reviewer was looking at when they responded
+  revision?: number;
+}
+
+// A formal sign-off request; written only by the server's approvals endpoint
+export interface SignOff {
+  itemId: string;
+  requestedBy: string;
+  requestedAt: string;
+  revision: number;
+  reviews: ApprovalReview[];
+}
+
+// The Figma file a project was created from; name and thumbnail are as of the last refresh
+export interface FigmaFileLink {
+  fileId: string;
+  url: string;
+  name: string;
+  thumbnailUrl: string | null;
+  lastModified: string | null;
+  linkedAt: string;
+}
+
+// A layer the Figma audit flagged for an item
+export interface FigmaAuditFinding {
+  nodeId: string;
+  nodeName: string;
+  pageName: string;
+  message: string;
+}
+
+// The audit's result for one item; findings are capped, findingCount is the full number
+export interface FigmaAuditCheck {
+  itemId: string;
+  checked: number;
+  findingCount: number;
+  findings: FigmaAuditFinding[];
+  // null when the file had nothing the check could look at
+  suggestedStatus: 'done' | 'in_progress' | null;
+}
+
+// The last audit of the project's Figma file, run on request and kept until the next run
+export interface FigmaAudit {
+  fileId: string;
+  version: string;
+  lastModified: string;
+  checks: FigmaAuditCheck[];
+  ranAt: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  archived: boolean;
+  // Template the project started from; categories are copied so later template edits don't move its goalposts
+  templateId: string;
+  categories: ChecklistCategory[];
+  checklists: ChecklistData;
+  // Absent on projects saved before item notes existed
+  itemDetails?: ItemDetailsMap;
+  // Falls back to DEFAULT_PRIORITY_WEIGHTS when unset
+  priorityWeights?: PriorityWeights;
+  // Set by the server; left off the user's own projects once they reach this device
+  ownerId?: string;
+  members?: ProjectMember[];
+  assignments?: ItemAssignments;
+  schedule?: ProjectSchedule;
+  signOff?: SignOff;
+  figma?: FigmaFileLink;
+  figmaAudit?: FigmaAudit;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A comment on a checklist item; stored by the comments endpoint rather than in the project
+export interface ItemComment {
+  id: string;
+  itemId: string;
+  // Replies point at the first comment of their thread
+  parentId: string | null;
+  authorEmail: string;
+  authorName?: string;
+  authorPicture?: string;
+  body: string;
+  mentions: string[];
+  createdAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+export type ActivityType = 'status' | 'note' | 'assignment' | 'template' | 'restore';
+
+// One change recorded by the server when a project was saved; the log is append-only
+export interface ActivityEntry {
+  id: string;
+  at: string;
+  actorEmail: string;
+  actorName?: string;
+  // Project revision the change produced
+  revision: number;
+  type: ActivityType;
+  itemId?: string;
+  categoryId?: string;
+  // Status, note text, assignee emails, { templateId, items } or the restored snapshot depending on the type
+  from: unknown;
+  to: unknown;
+}
+
+export type SnapshotKind = 'manual' | 'import' | 'daily' | 'restore';
+
+// A point-in-time copy of a project kept by the server; the list leaves out data
+export interface ProjectSnapshot {
+  id: string;
+  kind: SnapshotKind;
+  name: string;
+  createdAt: string;
+  createdBy: string;
+  // Revision the copy was taken from; null when the project had never been saved
+  revision: number | null;
+  data?: Project;
+}
+
+// Everything a signed-in user has locally: their projects and which one is open
+export interface ProjectWorkspace {
+  // getProjectKey of the open project (the id, for the user's own projects)
+  activeProjectId: string | null;
+  projects: Project[];
+}
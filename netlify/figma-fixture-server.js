@@ -0,0 +1,142 @@
+// Stand-in for the Figma REST API, for local development and offline testing only.
+//
+// Serves saved Figma JSON instead of real files:
+//
+//   GET /v1/me                          The token's user (any token except "invalid" is accepted)
+//   GET /v1/files/:key[?depth=n]        netlify/fixtures/figma/<key>.json, as saved from GET /v1/files/:key
+//   GET /v1/files/:key/versions         <key>.versions.json if present, otherwise no versions
+//   GET /v1/files/:key/nodes?ids=a,b    Those nodes from the saved file (null for ids it doesn't have)
+//   GET /v1/images/:key?ids=a,b         Links to placeholder SVGs served by this server
+//
+// Save a real response with
+//   curl -H "X-Figma-Token: $TOKEN" https://api.figma.com/v1/files/<key> > netlify/fixtures/figma/<key>.json
+//
+// Run with `npm run dev:figma` and set FIGMA_API_BASE_URL=http://localhost:8898 for the functions.
+
+import { createServer } from 'http'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const PORT = Number(process.env.FIGMA_FIXTURE_PORT || 8898)
+const FIXTURES_DIR = process.env.FIGMA_FIXTURES_DIR
+  ? path.resolve(process.env.FIGMA_FIXTURES_DIR)
+  : path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures/figma')
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Figma-Token',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+function reply(res, statusCode, body) {
+  res.writeHead(statusCode, { ...headers, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readFixture(name) {
+  if (!/^[A-Za-z0-9.]+$/.test(name)) return null
+  try {
+    return JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'))
+  } catch {
+    return null
+  }
+}
+
+// Same trimming as Figma's depth parameter: depth=1 returns pages but not their contents
+function limitDepth(node, depth) {
+  if (!node.children) return node
+  if (depth <= 0) {
+    const { children: _children, ...rest } = node
+    return rest
+  }
+  return { ...node, children: node.children.map(child => limitDepth(child, depth - 1)) }
+}
+
+function findNode(node, nodeId) {
+  if (node.id === nodeId) return node
+  for (const child of node.children ?? []) {
+    const found = findNode(child, nodeId)
+    if (found) return found
+  }
+  return null
+}
+
+const escapeXml = text => text.replace(/[<>&"]/g, char => `&#${char.charCodeAt(0)};`)
+
+// Stands in for a rendered frame: a grey box with the node's name
+function placeholderSvg(name) {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="320" height="200" viewBox="0 0 320 200">` +
+    `<rect width="320" height="200" fill="#e5e7eb"/>` +
+    `<text x="160" y="105" font-family="sans-serif" font-size="16" text-anchor="middle" fill="#374151">${escapeXml(name)}</text></svg>`
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(200, headers)
+    res.end()
+    return
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`)
+
+  // Image links are opened by the browser, so they don't carry a token
+  const image = /^\/images\/([^/]+)\/([^/]+)\.svg$/.exec(url.pathname)
+  if (image) {
+    const file = await readFixture(image[1])
+    const node = file && findNode(file.document, decodeURIComponent(image[2]))
+    if (!node) return reply(res, 404, { status: 404, err: 'Not found' })
+    res.writeHead(200, { ...headers, 'Content-Type': 'image/svg+xml' })
+    res.end(placeholderSvg(node.name))
+    return
+  }
+
+  const token = req.headers['x-figma-token']
+  if (!token || token === 'invalid') return reply(res, 403, { status: 403, err: 'Invalid token' })
+  if (req.method !== 'GET') return reply(res, 405, { status: 405, err: 'Method not allowed' })
+  const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean)
+
+  try {
+    if (url.pathname === '/v1/me') {
+      return reply(res, 200, { id: 'fixture-user', handle: 'Fixture User', email: 'fixture@example.com', img_url: '' })
+    }
+
+    const images = /^\/v1\/images\/([^/]+)$/.exec(url.pathname)
+    if (images) {
+      const base = `http://${req.headers.host}/images/${images[1]}`
+      return reply(res, 200, {
+        err: null,
+        images: Object.fromEntries(ids.map(id => [id, `${base}/${encodeURIComponent(id)}.svg`])),
+      })
+    }
+
+    const match = /^\/v1\/files\/([^/]+)(\/versions|\/nodes)?$/.exec(url.pathname)
+    if (!match) return reply(res, 404, { status: 404, err: 'Not found' })
+
+    const [, key, resource] = match
+    if (resource === '/versions') {
+      return reply(res, 200, (await readFixture(`${key}.versions`)) ?? { versions: [] })
+    }
+
+    const file = await readFixture(key)
+    if (!file) return reply(res, 404, { status: 404, err: 'Not found' })
+
+    if (resource === '/nodes') {
+      const nodes = Object.fromEntries(ids.map(id => {
+        const node = findNode(file.document, id)
+        return [id, node ? { document: node, components: {}, styles: {} } : null]
+      }))
+      return reply(res, 200, { name: file.name, lastModified: file.lastModified, version: file.version, nodes })
+    }
+
+    const depth = url.searchParams.get('depth')
+    reply(res, 200, depth ? { ...file, document: limitDepth(file.document, Number(depth)) } : file)
+  } catch (error) {
+    console.error('Figma fixture server error:', error)
+    reply(res, 500, { status: 500, err: 'Internal server error' })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Figma fixture server on http://localhost:${PORT} (fixtures: ${FIXTURES_DIR})`)
+})
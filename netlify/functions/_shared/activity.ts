@@ -0,0 +1,113 @@
+import { randomBytes } from 'crypto'
+import { GoogleIdentity } from './auth'
+import { normalizeEmail } from './members'
+import { ChecklistStore, projectActivityPrefix } from './storage'
+
+export type ActivityType = 'status' | 'note' | 'assignment' | 'template' | 'restore'
+
+// Mirrors ActivityEntry in the client's checklist types
+export interface ActivityEntry {
+  id: string
+  at: string
+  actorEmail: string
+  actorName?: string
+  // Project revision the change produced
+  revision: number
+  type: ActivityType
+  itemId?: string
+  categoryId?: string
+  from: unknown
+  to: unknown
+}
+
+type ActivityChange = Pick<ActivityEntry, 'type' | 'itemId' | 'categoryId' | 'from' | 'to'>
+
+interface ProjectShape {
+  templateId?: string
+  categories?: { id: string; items?: { id: string }[] }[]
+  checklists?: Record<string, string>
+  itemDetails?: Record<string, { note?: string }>
+  assignments?: Record<string, string[]>
+}
+
+// Notes are logged in full up to this length, so the log stays readable without growing unbounded
+const MAX_NOTE_LENGTH = 500
+
+const truncate = (note: string) => (note.length > MAX_NOTE_LENGTH ? `${note.slice(0, MAX_NOTE_LENGTH)}…` : note)
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every(value => b.includes(value))
+
+// Works out what a save changed: item statuses, notes, assignees, and the checklist's template
+export function diffProjectActivity(before: unknown, after: unknown): ActivityChange[] {
+  if (!before || !after) return []
+  const previous = before as ProjectShape
+  const next = after as ProjectShape
+  const changes: ActivityChange[] = []
+
+  const categoryOf = new Map<string, string>()
+  const categories = [...(previous.categories ?? []), ...(next.categories ?? [])]
+  categories.forEach(category => category.items?.forEach(item => categoryOf.set(item.id, category.id)))
+  const itemChange = (type: ActivityType, itemId: string, from: unknown, to: unknown): ActivityChange =>
+    ({ type, itemId, categoryId: categoryOf.get(itemId), from, to })
+
+  const countItems = (project: ProjectShape) =>
+    (project.categories ?? []).reduce((count, category) => count + (category.items?.length ?? 0), 0)
+  if (previous.templateId !== next.templateId ||
+      JSON.stringify(previous.categories ?? []) !== JSON.stringify(next.categories ?? [])) {
+    changes.push({
+      type: 'template',
+      from: { templateId: previous.templateId ?? null, items: countItems(previous) },
+      to: { templateId: next.templateId ?? null, items: countItems(next) },
+    })
+  }
+
+  const statusIds = new Set([...Object.keys(previous.checklists ?? {}), ...Object.keys(next.checklists ?? {})])
+  statusIds.forEach(itemId => {
+    const from = previous.checklists?.[itemId] ?? 'todo'
+    const to = next.checklists?.[itemId] ?? 'todo'
+    if (from !== to) changes.push(itemChange('status', itemId, from, to))
+  })
+
+  const noteIds = new Set([...Object.keys(previous.itemDetails ?? {}), ...Object.keys(next.itemDetails ?? {})])
+  noteIds.forEach(itemId => {
+    const from = previous.itemDetails?.[itemId]?.note ?? ''
+    const to = next.itemDetails?.[itemId]?.note ?? ''
+    if (from !== to) changes.push(itemChange('note', itemId, truncate(from), truncate(to)))
+  })
+
+  const assignedIds = new Set([...Object.keys(previous.assignments ?? {}), ...Object.keys(next.assignments ?? {})])
+  assignedIds.forEach(itemId => {
+    const from = previous.assignments?.[itemId] ?? []
+    const to = next.assignments?.[itemId] ?? []
+    if (!sameList(from, to)) changes.push(itemChange('assignment', itemId, from, to))
+  })
+
+  return changes
+}
+
+// Appends one entry per change. Entries are never rewritten; they go away only with the project.
+export async function appendActivity(
+  store: ChecklistStore,
+  ownerId: string,
+  projectId: string,
+  identity: GoogleIdentity,
+  revision: number,
+  changes: ActivityChange[]
+): Promise<void> {
+  const now = Date.now()
+  const prefix = projectActivityPrefix(ownerId, projectId)
+
+  await Promise.all(changes.map((change, index) => {
+    // Millisecond time, then position within the save, then a random suffix against clashes between saves
+    const id = `${String(now).padStart(15, '0')}-${String(index).padStart(4, '0')}-${randomBytes(4).toString('hex')}`
+    const entry: ActivityEntry = {
+      id,
+      at: new Date(now).toISOString(),
+      actorEmail: normalizeEmail(identity.email),
+      actorName: identity.name,
+      revision,
+      ...change,
+    }
+    return store.set(`${prefix}${id}`, entry)
+  }))
+}
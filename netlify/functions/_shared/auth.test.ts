@@ -0,0 +1,89 @@
+import { generateKeyPairSync, sign } from 'crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createStaticJwksSource, createTokenVerifier, JsonWebKeySet, JwksSource } from './auth'
+
+const AUDIENCE = 'test-client.apps.googleusercontent.com'
+const NOW = Date.UTC(2026, 9, 1, 12, 0, 0)
+const nowSeconds = Math.floor(NOW / 1000)
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const keySet = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', alg: 'RS256' }] } as JsonWebKeySet
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+const validClaims = {
+  iss: 'https://accounts.google.com',
+  aud: AUDIENCE,
+  sub: '1234567890',
+  email: 'alice@example.com',
+  email_verified: true,
+  iat: nowSeconds - 60,
+  exp: nowSeconds + 3600,
+}
+
+function signToken(claims: object, header: object = { alg: 'RS256', kid: 'test-key' }) {
+  const signingInput = `${encode(header)}.${encode(claims)}`
+  return `${signingInput}.${sign('RSA-SHA256', Buffer.from(signingInput), privateKey).toString('base64url')}`
+}
+
+const createVerifier = (jwks: JwksSource = createStaticJwksSource(keySet)) =>
+  createTokenVerifier({ audience: AUDIENCE, jwks, now: () => NOW })
+
+describe('createTokenVerifier', () => {
+  // Rejections are logged with their reason; keep the test output to the results
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('returns the identity for a valid token', async () => {
+    expect(await createVerifier()(signToken(validClaims))).toEqual({
+      id: '1234567890',
+      email: 'alice@example.com',
+      emailVerified: true,
+      name: undefined,
+      picture: undefined,
+    })
+  })
+
+  it.each([
+    ['another audience', { ...validClaims, aud: 'someone-else' }],
+    ['an expired token', { ...validClaims, exp: nowSeconds - 3600 }],
+    ['another issuer', { ...validClaims, iss: 'https://evil.example.com' }],
+    ['a token issued in the future', { ...validClaims, iat: nowSeconds + 3600 }],
+    ['a token without an email', { ...validClaims, email: undefined }],
+  ])('rejects %s', async (_case, claims) => {
+    expect(await createVerifier()(signToken(claims))).toBeNull()
+  })
+
+  it('rejects a token signed with an unknown key', async () => {
+    expect(await createVerifier()(signToken(validClaims, { alg: 'RS256', kid: 'other-key' }))).toBeNull()
+  })
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = signToken(validClaims).split('.')
+    const tampered = `${header}.${encode({ ...validClaims, email: 'mallory@example.com' })}.${signature}`
+    expect(await createVerifier()(tampered)).toBeNull()
+  })
+
+  it('rejects tokens that are not signed JWTs', async () => {
+    const verify = createVerifier()
+    expect(await verify('garbage')).toBeNull()
+    expect(await verify('a.b.c')).toBeNull()
+    expect(await verify(`${encode({ alg: 'none' })}.${encode(validClaims)}.`)).toBeNull()
+  })
+
+  it('throws when the key set cannot be loaded', async () => {
+    const verify = createVerifier(async () => { throw new Error('JWKS request failed: 503 Service Unavailable') })
+    await expect(verify(signToken(validClaims))).rejects.toThrow('JWKS request failed')
+  })
+
+  it('forces a key set refresh for an unknown key at most once a minute', async () => {
+    const jwks = vi.fn<[boolean?], Promise<JsonWebKeySet>>(async () => keySet)
+    const verify = createVerifier(jwks)
+    const unknownKeyToken = signToken(validClaims, { alg: 'RS256', kid: 'other-key' })
+
+    await verify(unknownKeyToken)
+    await verify(unknownKeyToken)
+    expect(jwks.mock.calls.filter(([forceRefresh]) => forceRefresh)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,195 @@
+import { createPublicKey, verify, JsonWebKey } from 'crypto'
+import { HandlerEvent } from '@netlify/functions'
+
+// Verified identity taken from a Google ID token
+export interface GoogleIdentity {
+  id: string
+  email: string
+  emailVerified: boolean
+  name?: string
+  picture?: string
+}
+
+interface Jwk extends JsonWebKey {
+  kid: string
+  alg?: string
+}
+
+export interface JsonWebKeySet {
+  keys: Jwk[]
+}
+
+// Where signing keys come from. `forceRefresh` is set when a token names a key we have not seen,
+// which is how Google key rotation shows up.
+export type JwksSource = (forceRefresh?: boolean) => Promise<JsonWebKeySet>
+
+export interface TokenVerifierOptions {
+  audience: string
+  jwks: JwksSource
+  issuers?: string[]
+  clockToleranceSeconds?: number
+  // Shortest gap between forced JWKS refreshes; defaults to JWKS_REFRESH_INTERVAL_MS
+  jwksRefreshIntervalMs?: number
+  now?: () => number
+}
+
+export const GOOGLE_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs'
+const GOOGLE_ISSUERS = ['accounts.google.com', 'https://accounts.google.com']
+const DEFAULT_JWKS_MAX_AGE_MS = 60 * 60 * 1000
+// Anyone can send a token naming an unknown key, so those only reach Google this often
+const JWKS_REFRESH_INTERVAL_MS = 60 * 1000
+
+// Public OAuth client id of the web app; override with GOOGLE_CLIENT_ID for other deployments
+const DEFAULT_CLIENT_ID = '74711016854-qfe6528f0ocvqg3rl1o78ngl1nhj97ed.apps.googleusercontent.com'
+
+// Fetches Google's signing keys and caches them for as long as Cache-Control allows
+export function createRemoteJwksSource(url = GOOGLE_JWKS_URL): JwksSource {
+  let cached: JsonWebKeySet | null = null
+  let expiresAt = 0
+
+  return async (forceRefresh = false) => {
+    if (cached && !forceRefresh && Date.now() < expiresAt) {
+      return cached
+    }
+
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } })
+    if (!response.ok) {
+      throw new Error(`JWKS request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '')
+    cached = await response.json() as JsonWebKeySet
+    expiresAt = Date.now() + (maxAge ? Number(maxAge[1]) * 1000 : DEFAULT_JWKS_MAX_AGE_MS)
+    return cached
+  }
+}
+
+// A fixed key set, for tests and local development without network access
+export function createStaticJwksSource(keySet: JsonWebKeySet): JwksSource {
+  return async () => keySet
+}
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+
+// Splits a signed JWT and reads its header; null (with the reason logged) for anything else
+function parseToken(token: string) {
+  const segments = token.split('.')
+  if (segments.length !== 3) {
+    console.error('Token verification error: not a JWT')
+    return null
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments
+  try {
+    const header = decodeSegment(encodedHeader)
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+      console.error(`Token verification error: unsupported header (alg ${header.alg})`)
+      return null
+    }
+    return { header: header as { alg: string; kid: string }, encodedHeader, encodedPayload, encodedSignature }
+  } catch (error) {
+    console.error('Token verification error:', error)
+    return null
+  }
+}
+
+export function createTokenVerifier(options: TokenVerifierOptions) {
+  const issuers = options.issuers ?? GOOGLE_ISSUERS
+  const tolerance = options.clockToleranceSeconds ?? 60
+  const now = options.now ?? Date.now
+  const refreshInterval = options.jwksRefreshIntervalMs ?? JWKS_REFRESH_INTERVAL_MS
+  let lastForcedRefresh = -Infinity
+
+  const findKey = async (kid: string): Promise<Jwk | undefined> => {
+    const keySet = await options.jwks()
+    const key = keySet.keys.find(k => k.kid === kid)
+    if (key || now() - lastForcedRefresh < refreshInterval) return key
+    lastForcedRefresh = now()
+    return (await options.jwks(true)).keys.find(k => k.kid === kid)
+  }
+
+  // Resolves the identity for a valid token, or null (with the reason logged) for anything else.
+  // Failing to load the key set is not the token's fault: that error is thrown, so handlers answer 500.
+  return async function verifyIdToken(token: string): Promise<GoogleIdentity | null> {
+    const parsed = parseToken(token)
+    if (!parsed) return null
+
+    const { header, encodedHeader, encodedPayload, encodedSignature } = parsed
+    const jwk = await findKey(header.kid)
+    if (!jwk) {
+      console.error(`Token verification error: unknown signing key ${header.kid}`)
+      return null
+    }
+
+    try {
+      const signatureValid = verify(
+        'RSA-SHA256',
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        createPublicKey({ key: jwk, format: 'jwk' }),
+        Buffer.from(encodedSignature, 'base64url')
+      )
+      if (!signatureValid) {
+        console.error('Token verification error: invalid signature')
+        return null
+      }
+
+      const payload = decodeSegment(encodedPayload)
+      const nowSeconds = Math.floor(now() / 1000)
+      const audiences: unknown[] = Array.isArray(payload.aud) ? payload.aud : [payload.aud]
+
+      if (!audiences.includes(options.audience)) {
+        console.error('Token verification error: audience mismatch')
+        return null
+      }
+      if (!issuers.includes(payload.iss)) {
+        console.error(`Token verification error: unexpected issuer ${payload.iss}`)
+        return null
+      }
+      if (typeof payload.exp !== 'number' || payload.exp + tolerance < nowSeconds) {
+        console.error('Token verification error: token expired')
+        return null
+      }
+      if (typeof payload.iat === 'number' && payload.iat - tolerance > nowSeconds) {
+        console.error('Token verification error: token issued in the future')
+        return null
+      }
+      if (typeof payload.sub !== 'string' || typeof payload.email !== 'string') {
+        console.error('Token verification error: missing sub or email claim')
+        return null
+      }
+
+      return {
+        id: payload.sub,
+        email: payload.email,
+        emailVerified: payload.email_verified === true,
+        name: payload.name,
+        picture: payload.picture,
+      }
+    } catch (error) {
+      console.error('Token verification error:', error)
+      return null
+    }
+  }
+}
+
+// Shared across invocations of a warm function instance so the JWKS cache survives between requests
+let defaultVerifier: ((token: string) => Promise<GoogleIdentity | null>) | null = null
+
+export function verifyGoogleIdToken(token: string): Promise<GoogleIdentity | null> {
+  if (!defaultVerifier) {
+    defaultVerifier = createTokenVerifier({
+      audience: process.env.GOOGLE_CLIENT_ID || DEFAULT_CLIENT_ID,
+      jwks: createRemoteJwksSource(process.env.GOOGLE_JWKS_URL || GOOGLE_JWKS_URL),
+    })
+  }
+  return defaultVerifier(token)
+}
+
+// Returns the bearer token from the Authorization header, if there is one
+export function getBearerToken(event: HandlerEvent): string | null {
+  const authHeader = event.headers.authorization || event.headers.Authorization
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null
+  }
+  return authHeader.substring(7)
+}
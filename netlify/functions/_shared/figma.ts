@@ -0,0 +1,152 @@
+import { GoogleIdentity } from './auth'
+import { normalizeEmail } from './members'
+import { ChecklistStore, figmaTokenKey, StoredFigmaToken } from './storage'
+
+// Override with FIGMA_API_BASE_URL to run against a local fixture server (see netlify/figma-fixture-server.js)
+export const FIGMA_API_BASE_URL = 'https://api.figma.com'
+
+// Versions listed when working out who has been editing a file
+const VERSIONS_PAGE_SIZE = 50
+
+// Most nodes looked up in one request; items link a handful of frames at most
+export const MAX_NODE_IDS = 50
+
+// Frame thumbnails are rendered at half size; they're shown small next to checklist items
+const NODE_THUMBNAIL_SCALE = 0.5
+
+// Mirrors FigmaFileSummary in the client's figma module
+export interface FigmaFileSummary {
+  fileId: string
+  name: string
+  thumbnailUrl: string | null
+  lastModified: string
+  version: string
+  // People who saved versions of the file, most recent first
+  editors: { handle: string; imageUrl?: string }[]
+  pages: { id: string; name: string }[]
+}
+
+// Mirrors FigmaNodeSummary in the client's figma module; name is null for nodes the file doesn't have
+export interface FigmaNodeSummary {
+  nodeId: string
+  name: string | null
+  type: string | null
+  thumbnailUrl: string | null
+}
+
+export interface FigmaNode {
+  id: string
+  name: string
+  type: string
+  children?: FigmaNode[]
+  [property: string]: unknown
+}
+
+interface FigmaFileResponse {
+  name: string
+  lastModified: string
+  thumbnailUrl?: string
+  version: string
+  document: FigmaNode
+}
+
+interface FigmaVersionsResponse {
+  versions: { user?: { handle: string; img_url?: string } }[]
+}
+
+// A failed Figma API call, keeping Figma's status so the function can tell a bad token from a missing file
+export class FigmaApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+  }
+}
+
+interface FigmaNodesResponse {
+  nodes: Record<string, { document: FigmaNode } | null>
+}
+
+interface FigmaImagesResponse {
+  images: Record<string, string | null>
+}
+
+// Node ids as the API writes them ("12:34"), including nested instance ids ("I12:34;56:78")
+export const isValidFigmaNodeId = (nodeId: string) => /^I?\d+:\d+(;\d+:\d+)*$/.test(nodeId)
+
+export const isValidFigmaFileId = (fileId: unknown): fileId is string =>
+  typeof fileId === 'string' && /^[A-Za-z0-9]{1,128}$/.test(fileId)
+
+// Anyone with a Google account can sign in, so the deployment-wide FIGMA_ACCESS_TOKEN is only lent to
+// verified emails listed in FIGMA_ACCESS_TOKEN_USERS (comma-separated; "@example.com" allows a whole domain)
+export function canUseEnvironmentFigmaToken(identity: GoogleIdentity): boolean {
+  if (!process.env.FIGMA_ACCESS_TOKEN || !identity.emailVerified) return false
+  const email = normalizeEmail(identity.email)
+  return (process.env.FIGMA_ACCESS_TOKEN_USERS || '')
+    .split(',')
+    .map(entry => normalizeEmail(entry))
+    .some(entry => entry && (entry.startsWith('@') ? email.endsWith(entry) : email === entry))
+}
+
+// The caller's own token, falling back to the deployment-wide one for allowed users
+export async function getFigmaToken(store: ChecklistStore, identity: GoogleIdentity): Promise<string | null> {
+  const stored = await store.get<StoredFigmaToken>(figmaTokenKey(identity.id))
+  if (stored?.token) return stored.token
+  return canUseEnvironmentFigmaToken(identity) ? process.env.FIGMA_ACCESS_TOKEN as string : null
+}
+
+export async function fetchFigma<T>(token: string, apiPath: string): Promise<T> {
+  const baseUrl = (process.env.FIGMA_API_BASE_URL || FIGMA_API_BASE_URL).replace(/\/+$/, '')
+  const response = await fetch(`${baseUrl}${apiPath}`, {
+    headers: { 'X-Figma-Token': token, 'Accept': 'application/json' }
+  })
+  const body = await response.json().catch(() => null) as { err?: string; message?: string } | null
+  if (!response.ok) {
+    throw new FigmaApiError(response.status, body?.err || body?.message || `Figma API request failed: ${response.status}`)
+  }
+  return body as T
+}
+
+export const fetchFigmaUser = (token: string) =>
+  fetchFigma<{ id: string; handle: string; email?: string; img_url?: string }>(token, '/v1/me')
+
+// Name, thumbnail and pages come from the file itself; editors from its version history
+export async function fetchFigmaFileSummary(token: string, fileId: string): Promise<FigmaFileSummary> {
+  const [file, history] = await Promise.all([
+    fetchFigma<FigmaFileResponse>(token, `/v1/files/${fileId}?depth=1`),
+    fetchFigma<FigmaVersionsResponse>(token, `/v1/files/${fileId}/versions?page_size=${VERSIONS_PAGE_SIZE}`),
+  ])
+
+  const editors = new Map<string, { handle: string; imageUrl?: string }>()
+  history.versions.forEach(({ user }) => {
+    if (user && !editors.has(user.handle)) editors.set(user.handle, { handle: user.handle, imageUrl: user.img_url })
+  })
+
+  return {
+    fileId,
+    name: file.name,
+    thumbnailUrl: file.thumbnailUrl || null,
+    lastModified: file.lastModified,
+    version: file.version,
+    editors: [...editors.values()],
+    pages: (file.document.children ?? []).map(page => ({ id: page.id, name: page.name })),
+  }
+}
+
+// Names come from the nodes endpoint, which also tells us whether the file has them; thumbnails are rendered by Figma
+export async function fetchFigmaNodeSummaries(token: string, fileId: string, nodeIds: string[]): Promise<FigmaNodeSummary[]> {
+  const ids = encodeURIComponent(nodeIds.join(','))
+  const { nodes } = await fetchFigma<FigmaNodesResponse>(token, `/v1/files/${fileId}/nodes?ids=${ids}&depth=1`)
+  const found = nodeIds.filter(nodeId => nodes[nodeId])
+  const { images } = found.length > 0
+    ? await fetchFigma<FigmaImagesResponse>(token, `/v1/images/${fileId}?ids=${encodeURIComponent(found.join(','))}&format=png&scale=${NODE_THUMBNAIL_SCALE}`)
+    : { images: {} as FigmaImagesResponse['images'] }
+
+  return nodeIds.map(nodeId => {
+    const node = nodes[nodeId]?.document
+    return {
+      nodeId,
+      name: node?.name ?? null,
+      type: node?.type ?? null,
+      thumbnailUrl: images[nodeId] ?? null,
+    }
+  })
+}
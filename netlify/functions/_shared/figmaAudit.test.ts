@@ -0,0 +1,85 @@
+import { readFileSync } from 'fs'
+import { describe, expect, it } from 'vitest'
+import { auditFigmaFile, FigmaFileDocument, walkFigmaPages } from './figmaAudit'
+
+// The saved file the fixture server serves, so this runs offline against the same data
+const fixture: FigmaFileDocument = JSON.parse(
+  readFileSync(new URL('../../fixtures/figma/FixtureDesignFile.json', import.meta.url), 'utf8')
+)
+
+const getCheck = (itemId: string) => auditFigmaFile('FixtureDesignFile', fixture).checks.find(c => c.itemId === itemId)
+
+describe('walkFigmaPages', () => {
+  it('skips hidden layers and does not enter instances', () => {
+    const visited: string[] = []
+    walkFigmaPages(fixture.document, node => visited.push(node.id))
+
+    expect(visited).toContain('2:13')
+    expect(visited).not.toContain('2:14')
+    expect(visited).not.toContain('2:24')
+    expect(visited).not.toContain('2:25')
+  })
+})
+
+describe('auditFigmaFile', () => {
+  it('reports text layers without a shared text style', () => {
+    expect(getCheck('typography-system')).toEqual({
+      itemId: 'typography-system',
+      checked: 8,
+      findingCount: 2,
+      findings: [
+        { nodeId: '2:10', nodeName: 'Title', pageName: 'Checkout Flow', message: 'Text layer does not use a shared text style' },
+        { nodeId: '2:23', nodeName: 'Legal', pageName: 'Checkout Flow', message: 'Text layer does not use a shared text style' },
+      ],
+      suggestedStatus: 'in_progress',
+    })
+  })
+
+  it('reports fills that are not bound to a style or variable', () => {
+    expect(getCheck('color-palette')).toEqual({
+      itemId: 'color-palette',
+      checked: 24,
+      findingCount: 3,
+      findings: [
+        { nodeId: '2:11', nodeName: 'Summary', pageName: 'Checkout Flow', message: 'Fill #F2F5FA is not bound to a color style or variable' },
+        { nodeId: '2:21', nodeName: 'Button', pageName: 'Checkout Flow', message: 'Fill #2663EB is not bound to a color style or variable' },
+        { nodeId: '2:23', nodeName: 'Legal', pageName: 'Checkout Flow', message: 'Fill #6B7380 is not bound to a color style or variable' },
+      ],
+      suggestedStatus: 'in_progress',
+    })
+  })
+
+  it('reports frames named like a component as detached instances', () => {
+    expect(getCheck('design-system')).toEqual({
+      itemId: 'design-system',
+      checked: 2,
+      findingCount: 1,
+      findings: [
+        {
+          nodeId: '2:21',
+          nodeName: 'Button',
+          pageName: 'Checkout Flow',
+          message: 'Frame named like the "Button" component; it looks like a detached instance',
+        },
+      ],
+      suggestedStatus: 'in_progress',
+    })
+  })
+
+  it('reports auto-layout spacing off the 4/8px grid', () => {
+    expect(getCheck('spacing-grid')).toEqual({
+      itemId: 'spacing-grid',
+      checked: 15,
+      findingCount: 1,
+      findings: [
+        {
+          nodeId: '2:11',
+          nodeName: 'Summary',
+          pageName: 'Checkout Flow',
+          message: 'Auto-layout gap 6px, top padding 10px, bottom padding 10px off the 4/8px grid',
+        },
+      ],
+      suggestedStatus: 'in_progress',
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { FigmaNode } from './figma'
+import { formatStates, getMissingStates } from './figmaComponentStates'
+
+// Mirrors FigmaAuditFinding in the client's checklist types
+export interface FigmaAuditFinding {
+  nodeId: string
+  nodeName: string
+  pageName: string
+  message: string
+}
+
+// One checklist item's result; findings are capped, findingCount is the full number
+export interface FigmaAuditCheck {
+  itemId: string
+  checked: number
+  findingCount: number
+  findings: FigmaAuditFinding[]
+  // null when the file had nothing this check could look at
+  suggestedStatus: 'done' | 'in_progress' | null
+}
+
+export interface FigmaAuditReport {
+  fileId: string
+  version: string
+  lastModified: string
+  checks: FigmaAuditCheck[]
+}
+
+// The parts of GET /v1/files/:key the audit reads
+export interface FigmaFileDocument {
+  name: string
+  version: string
+  lastModified: string
+  document: FigmaNode
+  components?: Record<string, { name: string; componentSetId?: string }>
+  componentSets?: Record<string, { name: string }>
+}
+
+interface Paint {
+  type: string
+  visible?: boolean
+  color?: { r: number; g: number; b: number }
+  boundVariables?: { color?: unknown }
+}
+
+// Enough to show the worst offenders in an item without storing thousands of nodes in the project
+const MAX_FINDINGS_PER_CHECK = 50
+
+// Auto-layout spacing is expected on a 4px grid (which includes every 8px value)
+const SPACING_GRID = 4
+
+const SPACING_PROPERTIES: [string, string][] = [
+  ['itemSpacing', 'gap'],
+  ['counterAxisSpacing', 'row gap'],
+  ['paddingTop', 'top padding'],
+  ['paddingRight', 'right padding'],
+  ['paddingBottom', 'bottom padding'],
+  ['paddingLeft', 'left padding'],
+]
+
+const toHex = ({ r, g, b }: { r: number; g: number; b: number }) =>
+  `#${[r, g, b].map(channel => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`.toUpperCase()
+
+// Collects one check's results while the file is walked once
+function createCheck(itemId: string) {
+  const check: FigmaAuditCheck = { itemId, checked: 0, findingCount: 0, findings: [], suggestedStatus: null }
+  return {
+    check,
+    count: () => { check.checked += 1 },
+    report: (node: FigmaNode, pageName: string, message: string) => {
+      check.findingCount += 1
+      if (check.findings.length < MAX_FINDINGS_PER_CHECK) {
+        check.findings.push({ nodeId: node.id, nodeName: node.name, pageName, message })
+      }
+    },
+  }
+}
+
+// Walks every visible layer on every page. Instances are checked themselves but not entered:
+// their layers come from the component, which is checked where it's defined.
+export function walkFigmaPages(document: FigmaNode, visit: (node: FigmaNode, pageName: string) => void) {
+  const walk = (node: FigmaNode, pageName: string) => {
+    if (node.visible === false) return
+    visit(node, pageName)
+    if (node.type !== 'INSTANCE') node.children?.forEach(child => walk(child, pageName))
+  }
+  document.children?.forEach(page => page.children?.forEach(child => walk(child, page.name)))
+}
+
+export function auditFigmaFile(fileId: string, file: FigmaFileDocument): FigmaAuditReport {
+  const typography = createCheck('typography-system')
+  const colors = createCheck('color-palette')
+  const components = createCheck('design-system')
+  const spacing = createCheck('spacing-grid')
+  const componentStates = createCheck('component-states')
+
+  // Variants are named like "State=Hover", so standalone components and component sets give the names people reuse
+  const componentNames = new Set([
+    ...Object.values(file.components ?? {}).filter(component => !component.componentSetId).map(component => component.name),
+    ...Object.values(file.componentSets ?? {}).map(componentSet => componentSet.name),
+  ])
+
+  walkFigmaPages(file.document, (node, pageName) => {
+    const styles = (node.styles ?? {}) as Record<string, string>
+
+    if (node.type === 'TEXT') {
+      typography.count()
+      if (!styles.text) typography.report(node, pageName, 'Text layer does not use a shared text style')
+    }
+
+    const fills = ((node.fills ?? []) as Paint[]).filter(paint => paint.visible !== false && paint.type !== 'IMAGE')
+    if (fills.length > 0) {
+      colors.count()
+      const unbound = fills.find(paint => !paint.boundVariables?.color)
+      if (!styles.fill && unbound) {
+        const color = unbound.type === 'SOLID' && unbound.color ? `${toHex(unbound.color)} ` : ''
+        colors.report(node, pageName, `Fill ${color}is not bound to a color style or variable`)
+      }
+    }
+
+    // The REST API doesn't mark detached instances; a frame still carrying a component's name is the telltale sign
+    if (node.type === 'INSTANCE') {
+      components.count()
+    } else if ((node.type === 'FRAME' || node.type === 'GROUP') && componentNames.has(node.name)) {
+      components.count()
+      components.report(node, pageName, `Frame named like the "${node.name}" component; it looks like a detached instance`)
+    }
+
+    if (node.type === 'COMPONENT_SET') {
+      componentStates.count()
+      const missing = getMissingStates(node)
+      if (missing.length > 0) {
+        componentStates.report(node, pageName, `No ${formatStates(missing)} variant${missing.length === 1 ? '' : 's'}`)
+      }
+    }
+
+    if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+      spacing.count()
+      const offGrid = SPACING_PROPERTIES
+        .filter(([property]) => property !== 'itemSpacing' || node.primaryAxisAlignItems !== 'SPACE_BETWEEN')
+        .filter(([property]) => typeof node[property] === 'number' && (node[property] as number) % SPACING_GRID !== 0)
+        .map(([property, label]) => `${label} ${node[property]}px`)
+      if (offGrid.length > 0) {
+        spacing.report(node, pageName, `Auto-layout ${offGrid.join(', ')} off the ${SPACING_GRID}/8px grid`)
+      }
+    }
+  })
+
+  const checks = [typography, colors, components, spacing, componentStates].map(({ check }) => ({
+    ...check,
+    suggestedStatus: check.checked === 0 ? null : check.findingCount === 0 ? 'done' as const : 'in_progress' as const,
+  }))
+
+  return { fileId, version: file.version, lastModified: file.lastModified, checks }
+}
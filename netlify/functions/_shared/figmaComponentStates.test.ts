@@ -0,0 +1,47 @@
+import { readFileSync } from 'fs'
+import { describe, expect, it } from 'vitest'
+import { auditFigmaFile, FigmaFileDocument } from './figmaAudit'
+import { getMissingStates, getVariantProperties } from './figmaComponentStates'
+
+// The saved file the fixture server serves, so this runs offline against the same data
+const fixture: FigmaFileDocument = JSON.parse(
+  readFileSync(new URL('../../fixtures/figma/FixtureDesignFile.json', import.meta.url), 'utf8')
+)
+
+const componentSet = (name: string) => {
+  const componentsPage = fixture.document.children?.find(page => page.name === 'Components')
+  const node = componentsPage?.children?.find(child => child.type === 'COMPONENT_SET' && child.name === name)
+  if (!node) throw new Error(`The fixture has no "${name}" component set`)
+  return node
+}
+
+describe('getMissingStates', () => {
+  it('reads states from variant values', () => {
+    expect(getMissingStates(componentSet('Button'))).toEqual(['focus', 'active'])
+  })
+
+  it('counts pressed as active and a Disabled=true variant as disabled', () => {
+    expect(getMissingStates(componentSet('Checkbox'))).toEqual([])
+  })
+
+  it('falls back to variant names without componentPropertyDefinitions', () => {
+    expect(getVariantProperties(componentSet('Text Input'))).toEqual({ State: ['Default', 'Focused', 'Error'] })
+    expect(getMissingStates(componentSet('Text Input'))).toEqual(['hover', 'active', 'disabled'])
+  })
+})
+
+describe('auditFigmaFile component-states check', () => {
+  it('lists the gaps per component set', () => {
+    const check = auditFigmaFile('FixtureDesignFile', fixture).checks.find(c => c.itemId === 'component-states')
+    expect(check).toEqual({
+      itemId: 'component-states',
+      checked: 3,
+      findingCount: 2,
+      findings: [
+        { nodeId: '3:1', nodeName: 'Button', pageName: 'Components', message: 'No focus and active variants' },
+        { nodeId: '3:11', nodeName: 'Text Input', pageName: 'Components', message: 'No hover, active and disabled variants' },
+      ],
+      suggestedStatus: 'in_progress',
+    })
+  })
+})
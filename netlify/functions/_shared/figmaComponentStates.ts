@@ -0,0 +1,63 @@
+import { FigmaNode } from './figma'
+
+export type InteractiveState = 'hover' | 'focus' | 'active' | 'disabled'
+
+// Words designers use for each state in variant property names and values, matched whole and case-insensitively
+const STATE_WORDS: Record<InteractiveState, string[]> = {
+  hover: ['hover', 'hovered', 'hovering'],
+  focus: ['focus', 'focused', 'focussed'],
+  active: ['active', 'pressed', 'press'],
+  disabled: ['disabled'],
+}
+
+export const INTERACTIVE_STATES = Object.keys(STATE_WORDS) as InteractiveState[]
+
+// Values of a boolean-style property ("Disabled=false") that don't give the state a variant
+const OFF_VALUES = ['false', 'no', 'off']
+
+interface VariantPropertyDefinition {
+  type: string
+  variantOptions?: string[]
+}
+
+const statesIn = (text: string) => {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/)
+  return INTERACTIVE_STATES.filter(state => STATE_WORDS[state].some(word => words.includes(word)))
+}
+
+// Variant properties and their values. Files saved before Figma returned componentPropertyDefinitions
+// only have them in the variants' names ("State=Hover, Size=Large").
+export function getVariantProperties(componentSet: FigmaNode): Record<string, string[]> {
+  const definitions = componentSet.componentPropertyDefinitions as Record<string, VariantPropertyDefinition> | undefined
+  if (definitions) {
+    return Object.fromEntries(Object.entries(definitions)
+      .filter(([, definition]) => definition.type === 'VARIANT')
+      .map(([name, definition]) => [name, definition.variantOptions ?? []]))
+  }
+
+  const properties: Record<string, string[]> = {}
+  componentSet.children?.filter(child => child.type === 'COMPONENT').forEach(variant => {
+    variant.name.split(',').forEach(pair => {
+      const [name, value] = pair.split('=').map(part => part.trim())
+      if (!name || value === undefined) return
+      properties[name] = [...new Set([...(properties[name] ?? []), value])]
+    })
+  })
+  return properties
+}
+
+// A state is covered by a value naming it ("State=Hover") or by a property named for it with an "on" value ("Disabled=true")
+export function getMissingStates(componentSet: FigmaNode): InteractiveState[] {
+  const covered = new Set<InteractiveState>()
+  Object.entries(getVariantProperties(componentSet)).forEach(([name, values]) => {
+    values.forEach(value => statesIn(value).forEach(state => covered.add(state)))
+    if (values.some(value => !OFF_VALUES.includes(value.toLowerCase()))) {
+      statesIn(name).forEach(state => covered.add(state))
+    }
+  })
+  return INTERACTIVE_STATES.filter(state => !covered.has(state))
+}
+
+// "hover, focus and disabled"
+export const formatStates = (states: InteractiveState[]) =>
+  states.length > 1 ? `${states.slice(0, -1).join(', ')} and ${states[states.length - 1]}` : states.join('')
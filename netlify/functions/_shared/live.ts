@@ -0,0 +1,131 @@
+import { randomBytes } from 'crypto'
+import { GoogleIdentity } from './auth'
+import { normalizeEmail } from './members'
+import { ChecklistStore, projectLivePrefix } from './storage'
+
+// Live updates for projects that several people have open. Netlify Functions can't hold connections
+// open, so viewers poll the live function: each poll marks the viewer as present and returns the
+// item changes published since their last one. Both are short-lived records in the checklist store.
+
+// Mirrors Viewer in the client's realtime module
+export interface LiveViewer {
+  clientId: string
+  email: string
+  name?: string
+  picture?: string
+  tab: string | null
+}
+
+// Mirrors RemoteChange in the client's realtime module
+export interface LiveChange {
+  clientId: string
+  author: { email: string; name?: string }
+  itemId: string
+  from: string
+  to: string
+}
+
+// A change as polls return it; the id lets viewers skip changes they were already sent
+export interface ListedChange extends LiveChange {
+  id: string
+}
+
+interface StoredViewer extends LiveViewer {
+  seenAt: number
+}
+
+// Viewers poll every few seconds; one that misses a few polls has closed the project
+export const PRESENCE_TTL_MS = 15 * 1000
+
+// Long enough for a viewer whose poll was delayed to catch up; older changes reach them through sync
+const CHANGE_TTL_MS = 2 * 60 * 1000
+
+// Change ids carry the publishing instance's clock, and a write can become listable after a later one,
+// so each poll re-reads this far back from the cursor. Viewers drop the ones they already have by id.
+const CHANGE_OVERLAP_MS = 10 * 1000
+
+// Client ids are generated by the browser, so only accept ones that are safe as key segments
+export const isValidClientId = (clientId: unknown): clientId is string =>
+  typeof clientId === 'string' && /^[A-Za-z0-9-]{1,64}$/.test(clientId)
+
+const presencePrefix = (ownerId: string, projectId: string) => `${projectLivePrefix(ownerId, projectId)}presence/`
+const changesPrefix = (ownerId: string, projectId: string) => `${projectLivePrefix(ownerId, projectId)}changes/`
+
+// Change keys start with the zero-padded time, so they sort in the order they were published
+const changeTime = (changeId: string) => Number(changeId.split('-')[0])
+
+export async function touchPresence(
+  store: ChecklistStore,
+  ownerId: string,
+  projectId: string,
+  identity: GoogleIdentity,
+  clientId: string,
+  tab: string | null
+) {
+  const viewer: StoredViewer = {
+    clientId,
+    email: normalizeEmail(identity.email),
+    name: identity.name,
+    picture: identity.picture,
+    tab,
+    seenAt: Date.now(),
+  }
+  await store.set(`${presencePrefix(ownerId, projectId)}${clientId}`, viewer)
+}
+
+export const removePresence = (store: ChecklistStore, ownerId: string, projectId: string, clientId: string) =>
+  store.delete(`${presencePrefix(ownerId, projectId)}${clientId}`)
+
+// Everyone with the project open; viewers that stopped polling are removed on the way
+export async function listViewers(store: ChecklistStore, ownerId: string, projectId: string): Promise<LiveViewer[]> {
+  const keys = await store.list(presencePrefix(ownerId, projectId))
+  const viewers = await Promise.all(keys.map(async key => ({ key, viewer: await store.get<StoredViewer>(key) })))
+  const cutoff = Date.now() - PRESENCE_TTL_MS
+
+  await Promise.all(viewers
+    .filter(({ viewer }) => !viewer || viewer.seenAt < cutoff)
+    .map(({ key }) => store.delete(key)))
+  return viewers
+    .filter(({ viewer }) => viewer && viewer.seenAt >= cutoff)
+    .map(({ viewer }) => {
+      const { seenAt: _seenAt, ...rest } = viewer as StoredViewer
+      return rest
+    })
+}
+
+export async function publishChange(store: ChecklistStore, ownerId: string, projectId: string, change: LiveChange) {
+  const changeId = `${String(Date.now()).padStart(15, '0')}-${randomBytes(4).toString('hex')}`
+  await store.set(`${changesPrefix(ownerId, projectId)}${changeId}`, change)
+}
+
+// Changes published since `since` (a cursor from an earlier call) less the overlap, oldest first, with the
+// cursor for the next call. Without `since` nothing is returned: a viewer who just opened the project has
+// the latest state.
+export async function listChangesSince(
+  store: ChecklistStore,
+  ownerId: string,
+  projectId: string,
+  since: string | undefined
+): Promise<{ changes: ListedChange[]; cursor: string }> {
+  const prefix = changesPrefix(ownerId, projectId)
+  const changeIds = (await store.list(prefix)).map(key => key.slice(prefix.length)).sort()
+  const cutoff = Date.now() - CHANGE_TTL_MS
+
+  await Promise.all(changeIds
+    .filter(changeId => changeTime(changeId) < cutoff)
+    .map(changeId => store.delete(`${prefix}${changeId}`)))
+
+  const live = changeIds.filter(changeId => changeTime(changeId) >= cutoff)
+  const latest = live[live.length - 1]
+  if (since === undefined) return { changes: [], cursor: latest ?? '0' }
+
+  // The cursor never moves back, so the window only slides forward
+  const cursor = latest !== undefined && latest > since ? latest : since
+  const windowStart = changeTime(since) - CHANGE_OVERLAP_MS
+  const windowIds = live.filter(changeId => changeTime(changeId) >= windowStart)
+  const changes = await Promise.all(windowIds.map(async changeId => {
+    const change = await store.get<LiveChange>(`${prefix}${changeId}`)
+    return change ? { ...change, id: changeId } : null
+  }))
+  return { changes: changes.filter((change): change is ListedChange => change !== null), cursor }
+}
@@ -0,0 +1,96 @@
+import { GoogleIdentity } from './auth'
+import { ChecklistStore, projectKey, StoredProject } from './storage'
+
+export type ProjectRole = 'owner' | 'editor'
+
+// Mirrors ProjectMember in the client's checklist types
+export interface ProjectMember {
+  email: string
+  role: ProjectRole
+  name?: string
+  picture?: string
+  addedAt: string
+}
+
+// Projects live under their owner's key; members find them through an index keyed by email.
+// Project ids are only unique per owner, so entries are keyed by owner and project.
+export interface MemberIndexEntry {
+  ownerId: string
+  projectId: string
+  addedAt: string
+}
+
+export interface ProjectAccess {
+  ownerId: string
+  key: string
+  record: StoredProject | null
+  role: ProjectRole
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+export const memberIndexPrefix = (email: string) => `members/${normalizeEmail(email)}/projects/`
+export const memberIndexKey = (email: string, ownerId: string, projectId: string) =>
+  `${memberIndexPrefix(email)}${ownerId}/${projectId}`
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function getMembers(data: unknown): ProjectMember[] {
+  const members = (data as { members?: unknown } | null)?.members
+  if (!Array.isArray(members)) return []
+  return members.filter((member): member is ProjectMember =>
+    typeof member?.email === 'string' && EMAIL_PATTERN.test(member.email)
+  )
+}
+
+// Emails of everyone other than the owner; these are the ones with index entries
+export const getMemberEmails = (data: unknown) =>
+  getMembers(data).filter(member => member.role !== 'owner').map(member => normalizeEmail(member.email))
+
+// Finds a project for the caller. Owners reach their own projects (existing or not yet saved);
+// anyone else needs a verified email that is on the project's member list.
+export async function getProjectAccess(
+  store: ChecklistStore,
+  identity: GoogleIdentity,
+  projectId: string,
+  ownerId: string = identity.id
+): Promise<ProjectAccess | null> {
+  const key = projectKey(ownerId, projectId)
+  const record = await store.get<StoredProject>(key)
+
+  if (ownerId === identity.id) {
+    return { ownerId, key, record, role: 'owner' }
+  }
+
+  if (!record || !identity.emailVerified) return null
+  if (!getMemberEmails(record.data).includes(normalizeEmail(identity.email))) return null
+  return { ownerId, key, record, role: 'editor' }
+}
+
+// Fills in the caller's name and picture from their verified token, so other members see an avatar
+export function withMemberProfile(members: ProjectMember[], identity: GoogleIdentity): ProjectMember[] {
+  const email = normalizeEmail(identity.email)
+  return members.map(member =>
+    normalizeEmail(member.email) === email
+      ? { ...member, name: identity.name ?? member.name, picture: identity.picture ?? member.picture }
+      : member
+  )
+}
+
+// Adds and removes index entries so they match the member list after a save
+export async function updateMemberIndex(
+  store: ChecklistStore,
+  ownerId: string,
+  projectId: string,
+  before: string[],
+  after: string[]
+): Promise<void> {
+  const added = after.filter(email => !before.includes(email))
+  const removed = before.filter(email => !after.includes(email))
+  const addedAt = new Date().toISOString()
+
+  await Promise.all([
+    ...added.map(email => store.set(memberIndexKey(email, ownerId, projectId), { ownerId, projectId, addedAt } as MemberIndexEntry)),
+    ...removed.map(email => store.delete(memberIndexKey(email, ownerId, projectId))),
+  ])
+}
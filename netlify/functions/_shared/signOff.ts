@@ -0,0 +1,50 @@
+// Stakeholder sign-off. The request and every reviewer's decision live in the project record under
+// `signOff`, but only the approvals function writes it: saves from clients keep the stored copy.
+
+export type ApprovalDecision = 'pending' | 'approved' | 'changes_requested'
+
+// Mirrors ApprovalReview and SignOff in the client's checklist types
+export interface ApprovalReview {
+  email: string
+  name?: string
+  decision: ApprovalDecision
+  comment?: string
+  respondedAt?: string
+  // Project revision the reviewer was looking at when they responded
+  revision?: number
+}
+
+export interface SignOff {
+  itemId: string
+  requestedBy: string
+  requestedAt: string
+  revision: number
+  reviews: ApprovalReview[]
+}
+
+// The checklist item that is completed by sign-off rather than by hand
+export const SIGN_OFF_ITEM_ID = 'stakeholder-approval'
+
+export function getSignOff(data: unknown): SignOff | null {
+  const signOff = (data as { signOff?: SignOff } | null)?.signOff
+  return signOff && Array.isArray(signOff.reviews) ? signOff : null
+}
+
+export const isFullyApproved = (signOff: SignOff) =>
+  signOff.reviews.length > 0 && signOff.reviews.every(review => review.decision === 'approved')
+
+// Puts the sign-off on the project and derives the item status from it: done once every
+// reviewer approved, in progress while any are pending or asked for changes. Without a sign-off
+// the item can't be done, whatever the client sent, so a 'done' is dropped back to not started.
+export function withSignOff(data: unknown, signOff: SignOff | null): Record<string, unknown> {
+  const { signOff: _previous, ...project } = (data ?? {}) as Record<string, unknown>
+  const checklists = { ...(project.checklists as Record<string, unknown> | undefined) }
+  if (signOff) {
+    checklists[signOff.itemId] = isFullyApproved(signOff) ? 'done' : 'in_progress'
+    return { ...project, checklists, signOff }
+  }
+
+  if (checklists[SIGN_OFF_ITEM_ID] !== 'done') return project
+  delete checklists[SIGN_OFF_ITEM_ID]
+  return { ...project, checklists }
+}
@@ -0,0 +1,60 @@
+import { randomBytes } from 'crypto'
+import { ChecklistStore, projectSnapshotsPrefix, StoredProject } from './storage'
+
+// manual: named by someone; import: taken by the client before an import replaces its projects;
+// daily: taken by save before the first change of each day (UTC); restore: taken before a restore
+export type SnapshotKind = 'manual' | 'import' | 'daily' | 'restore'
+
+export interface StoredSnapshot {
+  id: string
+  kind: SnapshotKind
+  name: string
+  createdAt: string
+  createdBy: string
+  // Revision of the project the snapshot was taken from; null for copies that were never saved
+  revision: number | null
+  data: unknown
+}
+
+export type SnapshotSummary = Omit<StoredSnapshot, 'data'>
+
+// Daily snapshots older than this many days are pruned when a new one is taken
+const DAILY_SNAPSHOTS_KEPT = 30
+
+export const toSnapshotSummary = ({ data: _data, ...summary }: StoredSnapshot): SnapshotSummary => summary
+
+export async function createSnapshot(
+  store: ChecklistStore,
+  ownerId: string,
+  projectId: string,
+  snapshot: Omit<StoredSnapshot, 'id' | 'createdAt'>,
+  id: string = `${String(Date.now()).padStart(15, '0')}-${randomBytes(4).toString('hex')}`
+): Promise<StoredSnapshot> {
+  const stored: StoredSnapshot = { id, createdAt: new Date().toISOString(), ...snapshot }
+  await store.set(`${projectSnapshotsPrefix(ownerId, projectId)}${id}`, stored)
+  return stored
+}
+
+// Keeps the project as it was before today's first save, and prunes old daily copies
+export async function ensureDailySnapshot(
+  store: ChecklistStore,
+  ownerId: string,
+  projectId: string,
+  current: StoredProject
+): Promise<void> {
+  const day = new Date().toISOString().slice(0, 10)
+  const prefix = projectSnapshotsPrefix(ownerId, projectId)
+  const id = `daily-${day}`
+  if (await store.get(`${prefix}${id}`)) return
+
+  await createSnapshot(store, ownerId, projectId, {
+    kind: 'daily',
+    name: `Start of ${day}`,
+    createdBy: current.userEmail,
+    revision: current.revision ?? 0,
+    data: current.data,
+  }, id)
+
+  const dailyKeys = (await store.list(`${prefix}daily-`)).sort()
+  await Promise.all(dailyKeys.slice(0, -DAILY_SNAPSHOTS_KEPT).map(key => store.delete(key)))
+}
@@ -0,0 +1,172 @@
+import { connectLambda, getStore } from '@netlify/blobs'
+import { HandlerEvent } from '@netlify/functions'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Key/value storage used by the checklist functions. Values are plain JSON.
+export interface ChecklistStore {
+  get<T = unknown>(key: string): Promise<T | null>
+  set(key: string, value: unknown): Promise<void>
+  delete(key: string): Promise<void>
+  list(prefix: string): Promise<string[]>
+}
+
+const STORE_NAME = 'design-checklist'
+
+// Blobs reads are eventually consistent by default (up to a minute stale); live updates need strong reads
+export type StoreConsistency = 'eventual' | 'strong'
+
+// Netlify Blobs store, used in production deploys
+export function createBlobStore(event: HandlerEvent, consistency: StoreConsistency = 'eventual'): ChecklistStore {
+  // Lambda-compatible functions have to hand the Blobs context over explicitly
+  connectLambda(event as unknown as Parameters<typeof connectLambda>[0])
+  const store = getStore({ name: STORE_NAME, consistency })
+
+  return {
+    async get<T>(key: string) {
+      const value = await store.get(key, { type: 'json' })
+      return (value ?? null) as T | null
+    },
+    async set(key, value) {
+      await store.setJSON(key, value)
+    },
+    async delete(key) {
+      await store.delete(key)
+    },
+    async list(prefix) {
+      const { blobs } = await store.list({ prefix })
+      return blobs.map(blob => blob.key)
+    },
+  }
+}
+
+// File-system store, used for local development with `netlify dev`
+export function createFileStore(rootDir: string): ChecklistStore {
+  const toPath = (key: string) =>
+    path.join(rootDir, ...key.split('/').map(segment => encodeURIComponent(segment))) + '.json'
+
+  const walk = async (dir: string): Promise<string[]> => {
+    let entries
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const files = await Promise.all(entries.map(entry => {
+      const fullPath = path.join(dir, entry.name)
+      return entry.isDirectory() ? walk(fullPath) : Promise.resolve([fullPath])
+    }))
+    return files.flat()
+  }
+
+  return {
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(await fs.readFile(toPath(key), 'utf8')) as T
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+    async set(key, value) {
+      const filePath = toPath(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      // Write to a temp file first so a crashed write never leaves half a document behind
+      const tempPath = `${filePath}.${process.pid}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(value, null, 2))
+      await fs.rename(tempPath, filePath)
+    },
+    async delete(key) {
+      await fs.rm(toPath(key), { force: true })
+    },
+    async list(prefix) {
+      const files = await walk(rootDir)
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => path.relative(rootDir, file).slice(0, -'.json'.length))
+        .map(relative => relative.split(path.sep).map(segment => decodeURIComponent(segment)).join('/'))
+        .filter(key => key.startsWith(prefix))
+        .sort()
+    },
+  }
+}
+
+// Picks the file store under `netlify dev` (or when CHECKLIST_STORE=file), Netlify Blobs otherwise
+export function getChecklistStore(event: HandlerEvent, consistency?: StoreConsistency): ChecklistStore {
+  const useFileStore = process.env.CHECKLIST_STORE === 'file' ||
+    (process.env.CHECKLIST_STORE !== 'blobs' && process.env.NETLIFY_DEV === 'true')
+
+  if (useFileStore) {
+    return createFileStore(path.resolve(process.env.CHECKLIST_STORE_DIR || '.netlify/checklist-store'))
+  }
+  return createBlobStore(event, consistency)
+}
+
+// Storage keys for a user's checklist projects
+export const projectsPrefix = (userId: string) => `users/${userId}/projects/`
+export const projectKey = (userId: string, projectId: string) => `${projectsPrefix(userId)}${projectId}`
+
+// Read-only share links: the token record, plus a per-project index used to list and clean them up
+export const shareKey = (token: string) => `shares/${token}`
+export const projectSharesPrefix = (ownerId: string, projectId: string) => `users/${ownerId}/shares/${projectId}/`
+
+// Item comments are stored one record per comment, so people commenting at once don't overwrite each other
+export const projectCommentsPrefix = (ownerId: string, projectId: string) => `users/${ownerId}/comments/${projectId}/`
+
+// Append-only activity log; keys start with the time so listing them returns entries in order
+export const projectActivityPrefix = (ownerId: string, projectId: string) => `users/${ownerId}/activity/${projectId}/`
+
+// Point-in-time copies of a project, named by people or taken automatically
+export const projectSnapshotsPrefix = (ownerId: string, projectId: string) => `users/${ownerId}/snapshots/${projectId}/`
+
+// Who has a project open and their recent item changes, for live updates; entries expire within minutes
+export const projectLivePrefix = (ownerId: string, projectId: string) => `users/${ownerId}/live/${projectId}/`
+
+// A user's Figma personal access token; only the figma function reads it, and it is never sent back
+export const figmaTokenKey = (userId: string) => `users/${userId}/figma-token`
+
+// Project ids are generated client-side, so only accept ids that are safe as key segments
+export const isValidProjectId = (projectId: unknown): projectId is string =>
+  typeof projectId === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(projectId)
+
+export interface StoredProject {
+  data: unknown
+  userEmail: string
+  clientTimestamp: string | null
+  updatedAt: string
+  // Incremented on every save; records written before revisions existed count as revision 0
+  revision?: number
+}
+
+export interface StoredShare {
+  token: string
+  ownerId: string
+  projectId: string
+  createdBy: string
+  createdAt: string
+}
+
+export interface StoredFigmaToken {
+  token: string
+  // Figma handle of the account the token belongs to, shown so people know which account is connected
+  handle: string
+  savedAt: string
+}
+
+export interface StoredComment {
+  id: string
+  itemId: string
+  // Replies point at the first comment of their thread; resolving applies to that comment
+  parentId: string | null
+  authorEmail: string
+  authorName?: string
+  authorPicture?: string
+  body: string
+  // Emails of the project members mentioned in the body
+  mentions: string[]
+  createdAt: string
+  resolvedBy?: string
+  resolvedAt?: string
+}
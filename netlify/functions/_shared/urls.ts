@@ -0,0 +1,50 @@
+// Project data is written by any editor and its URLs end up in links on everyone else's screen,
+// so saves only accept web addresses: anything else (javascript:, data:, ...) could run script.
+
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+interface UrlField {
+  path: string
+  value: unknown
+  optional?: boolean
+}
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : [])
+
+// The URLs a project carries: item links, linked Figma nodes and the project's Figma file
+function listProjectUrls(data: Record<string, unknown>): UrlField[] {
+  const fields: UrlField[] = []
+  const itemDetails = (data.itemDetails ?? {}) as Record<string, { links?: unknown; figmaNodes?: unknown } | null>
+
+  Object.entries(itemDetails).forEach(([itemId, details]) => {
+    asArray(details?.links).forEach((link, index) => {
+      fields.push({ path: `itemDetails.${itemId}.links[${index}].url`, value: (link as { url?: unknown } | null)?.url })
+    })
+    asArray(details?.figmaNodes).forEach((node, index) => {
+      fields.push({ path: `itemDetails.${itemId}.figmaNodes[${index}].url`, value: (node as { url?: unknown } | null)?.url })
+    })
+  })
+
+  const figma = data.figma as { url?: unknown; thumbnailUrl?: unknown } | null | undefined
+  if (figma) {
+    fields.push({ path: 'figma.url', value: figma.url })
+    fields.push({ path: 'figma.thumbnailUrl', value: figma.thumbnailUrl, optional: true })
+  }
+  return fields
+}
+
+// Path of the first URL in the project that is not http(s), or null when they all are
+export function findUnsafeProjectUrl(data: unknown): string | null {
+  if (!data || typeof data !== 'object') return null
+  const unsafe = listProjectUrls(data as Record<string, unknown>)
+    .find(({ value, optional }) => !(optional && value == null) && !isHttpUrl(value))
+  return unsafe ? unsafe.path : null
+}
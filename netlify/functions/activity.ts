@@ -0,0 +1,123 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { getProjectAccess } from './_shared/members'
+import { ActivityEntry } from './_shared/activity'
+import { getChecklistStore, isValidProjectId, projectActivityPrefix } from './_shared/storage'
+
+// Most recent entries returned when no limit is given
+const DEFAULT_LIMIT = 500
+const MAX_LIMIT = 2000
+
+const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  // The log is written by save and approvals; there is deliberately no way to change it here
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        message: 'This endpoint only accepts GET requests'
+      }),
+    }
+  }
+
+  try {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing or invalid authorization header',
+          message: 'Please provide a valid Bearer token'
+        }),
+      }
+    }
+
+    const userInfo = await verifyGoogleIdToken(idToken)
+    if (!userInfo) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid Google token',
+          message: 'The provided ID token is invalid or expired'
+        }),
+      }
+    }
+
+    const query = event.queryStringParameters ?? {}
+    const { projectId, itemId } = query
+    const ownerId = query.ownerId || undefined
+    const limit = Math.min(Number(query.limit) || DEFAULT_LIMIT, MAX_LIMIT)
+
+    if (!isValidProjectId(projectId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId',
+          message: 'A valid projectId is required'
+        }),
+      }
+    }
+
+    const store = getChecklistStore(event)
+    const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+    if (!access) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not a project member',
+          message: 'You are not a member of this project'
+        }),
+      }
+    }
+
+    // Keys sort by time, so the newest entries are at the end of the list
+    const keys = (await store.list(projectActivityPrefix(access.ownerId, projectId))).sort()
+    const entries = (await Promise.all(keys.map(key => store.get<ActivityEntry>(key))))
+      .filter((entry): entry is ActivityEntry => entry !== null && (!itemId || entry.itemId === itemId))
+      .slice(-limit)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        data: entries,
+        projectId: projectId
+      }),
+    }
+
+  } catch (error) {
+    console.error('Activity endpoint error:', error)
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading activity'
+      }),
+    }
+  }
+}
+
+export { handler }
@@ -0,0 +1,253 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { getMembers, getProjectAccess, normalizeEmail } from './_shared/members'
+import { getChecklistStore, isValidProjectId, StoredProject } from './_shared/storage'
+import { appendActivity, diffProjectActivity } from './_shared/activity'
+import { ApprovalReview, getSignOff, SIGN_OFF_ITEM_ID, SignOff, withSignOff } from './_shared/signOff'
+
+const MAX_COMMENT_LENGTH = 2000
+
+const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, DELETE, OPTIONS',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['POST', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        message: 'This endpoint only accepts POST and DELETE requests'
+      }),
+    }
+  }
+
+  try {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing or invalid authorization header',
+          message: 'Please provide a valid Bearer token'
+        }),
+      }
+    }
+
+    const userInfo = await verifyGoogleIdToken(idToken)
+    if (!userInfo) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid Google token',
+          message: 'The provided ID token is invalid or expired'
+        }),
+      }
+    }
+
+    const params = event.httpMethod === 'POST' ? JSON.parse(event.body || '{}') : event.queryStringParameters ?? {}
+    const { projectId, action } = params
+    const ownerId = params.ownerId || undefined
+
+    if (!isValidProjectId(projectId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId',
+          message: 'A valid projectId is required'
+        }),
+      }
+    }
+
+    const store = getChecklistStore(event)
+    const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+    if (!access) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not a project member',
+          message: 'You are not a member of this project'
+        }),
+      }
+    }
+
+    const { key, record: current } = access
+    if (!current) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({
+          error: 'Project not found',
+          message: 'Sync the project to the cloud before requesting sign-off'
+        }),
+      }
+    }
+
+    const currentRevision = current.revision ?? 0
+    const signOff = getSignOff(current.data)
+    const now = new Date().toISOString()
+    let next: SignOff | null
+
+    if ((event.httpMethod === 'DELETE' || action === 'request') && access.role !== 'owner') {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not allowed',
+          message: 'Only the project owner can request or cancel sign-off'
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      next = null
+    } else if (action === 'request') {
+      // Reviewers have to be project members, so they can open the project and respond
+      const members = getMembers(current.data)
+      const memberEmails = members.map(member => normalizeEmail(member.email))
+      const reviewers: string[] = Array.isArray(params.reviewers)
+        ? [...new Set(params.reviewers.filter((email: unknown) => typeof email === 'string').map(normalizeEmail))] as string[]
+        : []
+
+      if (reviewers.length === 0 || reviewers.some(email => !memberEmails.includes(email))) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid reviewers',
+            message: 'Choose at least one reviewer from the project members'
+          }),
+        }
+      }
+
+      next = {
+        itemId: SIGN_OFF_ITEM_ID,
+        requestedBy: userInfo.email,
+        requestedAt: now,
+        revision: currentRevision,
+        reviews: reviewers.map(email => ({
+          email,
+          name: members.find(member => normalizeEmail(member.email) === email)?.name,
+          decision: 'pending',
+        })),
+      }
+    } else if (action === 'respond') {
+      const { decision } = params
+      const comment = typeof params.comment === 'string' ? params.comment.trim() : ''
+
+      if (decision !== 'approved' && decision !== 'changes_requested') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid decision',
+            message: 'decision must be "approved" or "changes_requested"'
+          }),
+        }
+      }
+
+      if ((decision === 'changes_requested' && !comment) || comment.length > MAX_COMMENT_LENGTH) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid comment',
+            message: `Requesting changes needs a comment of at most ${MAX_COMMENT_LENGTH} characters`
+          }),
+        }
+      }
+
+      const email = normalizeEmail(userInfo.email)
+      if (!signOff || !userInfo.emailVerified || !signOff.reviews.some(review => review.email === email)) {
+        return {
+          statusCode: 403,
+          headers,
+          body: JSON.stringify({
+            error: 'Not a reviewer',
+            message: 'You have not been asked to sign off on this project'
+          }),
+        }
+      }
+
+      next = {
+        ...signOff,
+        reviews: signOff.reviews.map((review): ApprovalReview =>
+          review.email === email
+            ? {
+                email,
+                name: userInfo.name ?? review.name,
+                decision,
+                comment: comment || undefined,
+                respondedAt: now,
+                revision: currentRevision,
+              }
+            : review
+        ),
+      }
+    } else {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid action',
+          message: 'action must be "request" or "respond"'
+        }),
+      }
+    }
+
+    // Sign-off changes the item's status, so it is a new revision of the project like any other save
+    const revision = currentRevision + 1
+    const record: StoredProject = {
+      ...current,
+      data: withSignOff(current.data, next),
+      userEmail: userInfo.email,
+      updatedAt: now,
+      revision,
+    }
+    await store.set(key, record)
+    await appendActivity(store, access.ownerId, projectId, userInfo, revision, diffProjectActivity(current.data, record.data))
+    console.log(`Sign-off ${event.httpMethod === 'DELETE' ? 'cancelled' : action} on project ${projectId} by ${userInfo.email}`)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        message: 'Sign-off updated',
+        data: next,
+        projectId: projectId,
+        revision: revision
+      }),
+    }
+
+  } catch (error) {
+    console.error('Approvals endpoint error:', error)
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while updating sign-off'
+      }),
+    }
+  }
+}
+
+export { handler }
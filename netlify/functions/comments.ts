@@ -0,0 +1,266 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { randomUUID } from 'crypto'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { getMembers, getProjectAccess, normalizeEmail } from './_shared/members'
+import { getChecklistStore, isValidProjectId, projectCommentsPrefix, StoredComment } from './_shared/storage'
+
+const MAX_BODY_LENGTH = 4000
+
+// Item ids come from templates and are used in keys the same way project ids are
+const isValidItemId = (itemId: unknown): itemId is string =>
+  typeof itemId === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(itemId)
+
+const isValidCommentId = (commentId: unknown): commentId is string =>
+  typeof commentId === 'string' && /^[0-9a-f-]{36}$/.test(commentId)
+
+const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        message: 'This endpoint only accepts GET, POST, PATCH and DELETE requests'
+      }),
+    }
+  }
+
+  try {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing or invalid authorization header',
+          message: 'Please provide a valid Bearer token'
+        }),
+      }
+    }
+
+    const userInfo = await verifyGoogleIdToken(idToken)
+    if (!userInfo) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid Google token',
+          message: 'The provided ID token is invalid or expired'
+        }),
+      }
+    }
+
+    const hasBody = event.httpMethod === 'POST' || event.httpMethod === 'PATCH'
+    const params = hasBody ? JSON.parse(event.body || '{}') : event.queryStringParameters ?? {}
+    const { projectId } = params
+    const ownerId = params.ownerId || undefined
+
+    if (!isValidProjectId(projectId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId',
+          message: 'A valid projectId is required'
+        }),
+      }
+    }
+
+    const store = getChecklistStore(event)
+    const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+    if (!access) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not a project member',
+          message: 'You are not a member of this project'
+        }),
+      }
+    }
+
+    const prefix = projectCommentsPrefix(access.ownerId, projectId)
+
+    if (event.httpMethod === 'GET') {
+      const keys = await store.list(prefix)
+      const comments = (await Promise.all(keys.map(key => store.get<StoredComment>(key))))
+        .filter((comment): comment is StoredComment => comment !== null)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          data: comments,
+          projectId: projectId
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'POST') {
+      const { itemId } = params
+      const parentId = params.parentId ?? null
+      const body = typeof params.body === 'string' ? params.body.trim() : ''
+
+      if (!isValidItemId(itemId) || !body || body.length > MAX_BODY_LENGTH) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid comment',
+            message: `A comment needs a valid itemId and a body of 1 to ${MAX_BODY_LENGTH} characters`
+          }),
+        }
+      }
+
+      // Replies attach to the first comment of a thread on the same item
+      const parent = parentId === null ? null : isValidCommentId(parentId) ? await store.get<StoredComment>(`${prefix}${parentId}`) : null
+      if (parentId !== null && (!parent || parent.itemId !== itemId || parent.parentId !== null)) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid parentId',
+            message: 'Replies must point at the first comment of a thread on the same item'
+          }),
+        }
+      }
+
+      // Only people on the project can be mentioned
+      const memberEmails = access.record ? getMembers(access.record.data).map(member => normalizeEmail(member.email)) : []
+      const mentions = Array.isArray(params.mentions)
+        ? [...new Set(params.mentions.filter((email: unknown) => typeof email === 'string').map(normalizeEmail))]
+            .filter((email): email is string => memberEmails.includes(email as string))
+        : []
+
+      const comment: StoredComment = {
+        id: randomUUID(),
+        itemId,
+        parentId,
+        authorEmail: normalizeEmail(userInfo.email),
+        authorName: userInfo.name,
+        authorPicture: userInfo.picture,
+        body,
+        mentions,
+        createdAt: new Date().toISOString(),
+      }
+      await store.set(`${prefix}${comment.id}`, comment)
+      console.log(`Comment added on ${projectId}/${itemId} by ${userInfo.email}`)
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          message: 'Comment added',
+          data: comment
+        }),
+      }
+    }
+
+    const { commentId } = params
+    const existing = isValidCommentId(commentId) ? await store.get<StoredComment>(`${prefix}${commentId}`) : null
+    if (!existing) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({
+          error: 'Comment not found',
+          message: 'The comment does not exist or was deleted'
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'PATCH') {
+      if (existing.parentId !== null || typeof params.resolved !== 'boolean') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid update',
+            message: 'Only threads can be resolved, with resolved set to true or false'
+          }),
+        }
+      }
+
+      // Any member can resolve or reopen a thread
+      const { resolvedBy: _resolvedBy, resolvedAt: _resolvedAt, ...rest } = existing
+      const comment: StoredComment = params.resolved
+        ? { ...rest, resolvedBy: normalizeEmail(userInfo.email), resolvedAt: new Date().toISOString() }
+        : rest
+      await store.set(`${prefix}${comment.id}`, comment)
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          message: params.resolved ? 'Thread resolved' : 'Thread reopened',
+          data: comment
+        }),
+      }
+    }
+
+    // Authors delete their own comments, the owner can delete any; deleting a thread removes its replies
+    if (access.role !== 'owner' && existing.authorEmail !== normalizeEmail(userInfo.email)) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not allowed',
+          message: 'Only the author or the project owner can delete a comment'
+        }),
+      }
+    }
+
+    const deletedIds = [existing.id]
+    if (existing.parentId === null) {
+      const keys = await store.list(prefix)
+      const comments = await Promise.all(keys.map(key => store.get<StoredComment>(key)))
+      comments.forEach(comment => {
+        if (comment?.parentId === existing.id) deletedIds.push(comment.id)
+      })
+    }
+    await Promise.all(deletedIds.map(id => store.delete(`${prefix}${id}`)))
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        message: 'Comment deleted',
+        deletedIds: deletedIds
+      }),
+    }
+
+  } catch (error) {
+    console.error('Comments endpoint error:', error)
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while handling comments'
+      }),
+    }
+  }
+}
+
+export { handler }
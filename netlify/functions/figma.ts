@@ -0,0 +1,226 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { figmaTokenKey, getChecklistStore, StoredFigmaToken } from './_shared/storage'
+import {
+  canUseEnvironmentFigmaToken,
+  fetchFigma,
+  fetchFigmaFileSummary,
+  fetchFigmaNodeSummaries,
+  fetchFigmaUser,
+  FigmaApiError,
+  getFigmaToken,
+  isValidFigmaFileId,
+  isValidFigmaNodeId,
+  MAX_NODE_IDS,
+} from './_shared/figma'
+import { auditFigmaFile, FigmaFileDocument } from './_shared/figmaAudit'
+
+const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['GET', 'PUT', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        message: 'This endpoint only accepts GET, PUT and DELETE requests'
+      }),
+    }
+  }
+
+  try {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing or invalid authorization header',
+          message: 'Please provide a valid Bearer token'
+        }),
+      }
+    }
+
+    const userInfo = await verifyGoogleIdToken(idToken)
+    if (!userInfo) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid Google token',
+          message: 'The provided ID token is invalid or expired'
+        }),
+      }
+    }
+
+    const store = getChecklistStore(event)
+    const key = figmaTokenKey(userInfo.id)
+
+    if (event.httpMethod === 'PUT') {
+      const { token } = JSON.parse(event.body || '{}')
+      if (typeof token !== 'string' || !token.trim()) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid token',
+            message: 'A Figma personal access token is required'
+          }),
+        }
+      }
+
+      // Checked against Figma before it's kept, so a typo shows up now rather than on the next file
+      const figmaUser = await fetchFigmaUser(token.trim())
+      const stored: StoredFigmaToken = { token: token.trim(), handle: figmaUser.handle, savedAt: new Date().toISOString() }
+      await store.set(key, stored)
+      console.log(`Figma token for ${figmaUser.handle} saved by ${userInfo.email}`)
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          message: 'Figma token saved',
+          data: { connected: true, source: 'user', handle: figmaUser.handle }
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      await store.delete(key)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          message: 'Figma token removed'
+        }),
+      }
+    }
+
+    const { fileId, nodeIds, report } = event.queryStringParameters ?? {}
+
+    // Without a file, report whether the caller can use Figma at all (and never the token itself)
+    if (!fileId) {
+      const stored = await store.get<StoredFigmaToken>(key)
+      const source = stored ? 'user' : canUseEnvironmentFigmaToken(userInfo) ? 'environment' : null
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          data: { connected: source !== null, source, handle: stored?.handle ?? null }
+        }),
+      }
+    }
+
+    if (!isValidFigmaFileId(fileId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid fileId',
+          message: 'fileId must be the key from a Figma file URL'
+        }),
+      }
+    }
+
+    // Comma-separated node ids from item links: look up those nodes instead of the whole file
+    const requestedNodeIds = nodeIds ? [...new Set(nodeIds.split(',').map(nodeId => nodeId.trim()))] : []
+    if (nodeIds !== undefined && (requestedNodeIds.length === 0 || requestedNodeIds.length > MAX_NODE_IDS ||
+        !requestedNodeIds.every(isValidFigmaNodeId))) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid nodeIds',
+          message: `nodeIds must be 1 to ${MAX_NODE_IDS} Figma node ids such as 12:34, separated by commas`
+        }),
+      }
+    }
+
+    if (report !== undefined && report !== 'audit') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid report',
+          message: 'report must be audit'
+        }),
+      }
+    }
+
+    const token = await getFigmaToken(store, userInfo)
+    if (!token) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Figma not connected',
+          message: 'Add a Figma personal access token to load file details'
+        }),
+      }
+    }
+
+    // The audit needs every layer, so it's the one request that loads the full file
+    const data = report === 'audit'
+      ? auditFigmaFile(fileId, await fetchFigma<FigmaFileDocument>(token, `/v1/files/${fileId}`))
+      : requestedNodeIds.length > 0
+        ? await fetchFigmaNodeSummaries(token, fileId, requestedNodeIds)
+        : await fetchFigmaFileSummary(token, fileId)
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        data: data
+      }),
+    }
+
+  } catch (error) {
+    // Figma's own failures are passed on with a status that says whose problem it is
+    if (error instanceof FigmaApiError) {
+      const notFound = error.status === 404
+      const denied = error.status === 401 || error.status === 403
+      return {
+        statusCode: notFound ? 404 : denied ? 403 : 502,
+        headers,
+        body: JSON.stringify({
+          error: notFound ? 'Figma file not found' : denied ? 'Figma access denied' : 'Figma API error',
+          message: notFound
+            ? 'Figma has no file with this key, or the token cannot see it'
+            : denied
+              ? `Figma rejected the access token: ${error.message}`
+              : `Figma could not be reached: ${error.message}`
+        }),
+      }
+    }
+
+    console.error('Figma endpoint error:', error)
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while talking to Figma'
+      }),
+    }
+  }
+}
+
+export { handler }
@@ -0,0 +1,174 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { getProjectAccess, normalizeEmail } from './_shared/members'
+import {
+  isValidClientId,
+  listChangesSince,
+  listViewers,
+  publishChange,
+  removePresence,
+  touchPresence,
+} from './_shared/live'
+import { getChecklistStore, isValidProjectId } from './_shared/storage'
+
+const ITEM_STATUSES = ['todo', 'in_progress', 'done', 'na']
+
+// Category ids and item ids come from templates: short, but not restricted to key-safe characters
+const isValidId = (value: unknown): value is string => typeof value === 'string' && value.length > 0 && value.length <= 128
+
+const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['GET', 'POST'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        message: 'This endpoint only accepts GET and POST requests'
+      }),
+    }
+  }
+
+  try {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing or invalid authorization header',
+          message: 'Please provide a valid Bearer token'
+        }),
+      }
+    }
+
+    const userInfo = await verifyGoogleIdToken(idToken)
+    if (!userInfo) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid Google token',
+          message: 'The provided ID token is invalid or expired'
+        }),
+      }
+    }
+
+    // GET polls with query parameters; POST sends a message with the same fields in the body
+    const params = event.httpMethod === 'GET'
+      ? (event.queryStringParameters ?? {}) as Record<string, unknown>
+      : JSON.parse(event.body || '{}') as Record<string, unknown>
+    const { projectId, clientId } = params
+    const ownerId = typeof params.ownerId === 'string' && params.ownerId ? params.ownerId : undefined
+
+    if (!isValidProjectId(projectId) || !isValidClientId(clientId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId or clientId',
+          message: 'A valid projectId and clientId are required'
+        }),
+      }
+    }
+
+    // Strong reads, so a change published on one instance is seen by the next poll on any other
+    const store = getChecklistStore(event, 'strong')
+    const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+    if (!access) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not a project member',
+          message: 'You are not a member of this project'
+        }),
+      }
+    }
+
+    const tab = isValidId(params.tab) ? params.tab : null
+
+    if (event.httpMethod === 'GET') {
+      const since = typeof params.since === 'string' && params.since ? params.since : undefined
+      await touchPresence(store, access.ownerId, projectId, userInfo, clientId, tab)
+      const [viewers, { changes, cursor }] = await Promise.all([
+        listViewers(store, access.ownerId, projectId),
+        listChangesSince(store, access.ownerId, projectId, since),
+      ])
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          data: {
+            viewers,
+            // A viewer's own changes are already applied where they made them
+            changes: changes.filter(change => change.clientId !== clientId),
+            cursor
+          }
+        }),
+      }
+    }
+
+    if (params.type === 'presence') {
+      await touchPresence(store, access.ownerId, projectId, userInfo, clientId, tab)
+    } else if (params.type === 'leave') {
+      await removePresence(store, access.ownerId, projectId, clientId)
+    } else if (params.type === 'change' && isValidId(params.itemId) &&
+        ITEM_STATUSES.includes(params.from as string) && ITEM_STATUSES.includes(params.to as string)) {
+      await publishChange(store, access.ownerId, projectId, {
+        clientId,
+        author: { email: normalizeEmail(userInfo.email), name: userInfo.name },
+        itemId: params.itemId,
+        from: params.from as string,
+        to: params.to as string,
+      })
+    } else {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid message',
+          message: 'type must be "presence", "leave" or "change" (with itemId, from and to item statuses)'
+        }),
+      }
+    }
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true
+      }),
+    }
+
+  } catch (error) {
+    console.error('Live endpoint error:', error)
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while handling live updates'
+      }),
+    }
+  }
+}
+
+export { handler }
@@ -1,4 +1,7 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { getChecklistStore, isValidProjectId, projectsPrefix, StoredProject } from './_shared/storage'
+import { getProjectAccess, memberIndexPrefix, MemberIndexEntry } from './_shared/members'
 
 const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
   // Enable CORS
@@ -30,8 +33,8 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
 
   try {
     // Check for authorization header
-    const authHeader = event.headers.authorization
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
       return {
         statusCode: 401,
         headers,
@@ -42,8 +45,9 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
       }
     }
 
-    const accessToken = authHeader.substring(7)
     const userId = event.queryStringParameters?.userId
+    const projectId = event.queryStringParameters?.projectId
+    const ownerId = event.queryStringParameters?.ownerId || undefined
     
     // Validate userId parameter
     if (!userId) {
@@ -56,9 +60,20 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
         }),
       }
     }
+
+    if (projectId !== undefined && !isValidProjectId(projectId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId parameter',
+          message: 'The projectId query parameter is not a valid project id'
+        }),
+      }
+    }
     
-    // Verify Google token
-    const userInfo = await verifyGoogleToken(accessToken)
+    // Verify the Google ID token locally against Google's signing keys
+    const userInfo = await verifyGoogleIdToken(idToken)
     if (!userInfo || userInfo.id !== userId) {
       return {
         statusCode: 401,
@@ -70,21 +85,74 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
       }
     }
 
-    // Here you would typically load from a database
-    // For now, we'll return null to indicate no saved data
-    console.log('=== LOAD REQUEST ===')
-    console.log(`User: ${userInfo.email} (${userId})`)
-    console.log(`Loading data for user...`)
-    console.log('==================')
-    
+    const store = getChecklistStore(event)
+
+    // A single project when projectId is given (ownerId for projects shared with the user),
+    // otherwise every project the user owns or is a member of
+    if (projectId) {
+      const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+      if (!access) {
+        return {
+          statusCode: 403,
+          headers,
+          body: JSON.stringify({
+            error: 'Not a project member',
+            message: 'You are not a member of this project'
+          }),
+        }
+      }
+
+      const record = access.record
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ 
+          success: true, 
+          data: record ? record.data : null,
+          timestamp: record ? record.updatedAt : null,
+          revision: record ? record.revision ?? 0 : null,
+          message: record ? 'Project loaded successfully' : 'Project not found',
+          userId: userId,
+          projectId: projectId
+        }),
+      }
+    }
+
+    // Project ids are only unique per owner, so projects are told apart as `${ownerId}/${projectId}`
+    const prefix = projectsPrefix(userInfo.id)
+    const ownKeys = await store.list(prefix)
+    const owned = await Promise.all(ownKeys.map(async key =>
+      [`${userInfo.id}/${key.slice(prefix.length)}`, await store.get<StoredProject>(key)] as const
+    ))
+
+    // Index entries can outlive a membership (the owner removed the user), so access is checked again.
+    // Entries from before the index was keyed by owner may repeat a newer one for the same project.
+    const sharedPrefix = memberIndexPrefix(userInfo.email)
+    const sharedKeys = userInfo.emailVerified ? await store.list(sharedPrefix) : []
+    const shared = await Promise.all(sharedKeys.map(async key => {
+      const entry = await store.get<MemberIndexEntry>(key)
+      const access = entry ? await getProjectAccess(store, userInfo, entry.projectId, entry.ownerId) : null
+      return [entry ? `${entry.ownerId}/${entry.projectId}` : key, access?.record ?? null] as const
+    }))
+
+    const entries = Array.from(new Map([...owned, ...shared]
+      .filter((entry): entry is readonly [string, StoredProject] => entry[1] !== null)))
+    const records = entries.map(([, record]) => record)
+    // Revisions keyed by `${ownerId}/${projectId}`; clients send them back as baseRevision when saving
+    const revisions = Object.fromEntries(entries.map(([projectKey, record]) => [projectKey, record.revision ?? 0]))
+    const latest = records.reduce<string | null>(
+      (max, record) => (max === null || record.updatedAt > max ? record.updatedAt : max),
+      null
+    )
+
     return {
       statusCode: 200,
       headers,
       body: JSON.stringify({ 
         success: true, 
-        data: null, // No saved data yet - would come from database
-        timestamp: null,
-        message: 'No saved data found (this is normal for new users)',
+        data: records.length > 0 ? { projects: records.map(record => record.data), revisions } : null,
+        timestamp: latest,
+        message: records.length > 0 ? `Loaded ${records.length} projects` : 'No saved data found (this is normal for new users)',
         userId: userId
       }),
     }
@@ -102,33 +170,4 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
   }
 }
 
-// Helper function to verify Google access token
-async function verifyGoogleToken(accessToken: string) {
-  try {
-    const response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
-      headers: { 
-        'Authorization': `Bearer ${accessToken}`,
-        'Accept': 'application/json'
-      }
-    })
-    
-    if (!response.ok) {
-      console.error(`Google API error: ${response.status} ${response.statusText}`)
-      return null
-    }
-    
-    const userInfo = await response.json()
-    
-    // Validate required fields
-    if (!userInfo.id || !userInfo.email) {
-      console.error('Invalid user info from Google:', userInfo)
-      return null
-    }
-    
-    return userInfo
-  } catch (error) {
-    console.error('Token verification error:', error)
-    return null
-  }
-}
-
+export { handler }
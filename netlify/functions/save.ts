@@ -1,4 +1,29 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import {
+  getChecklistStore,
+  isValidProjectId,
+  projectActivityPrefix,
+  projectCommentsPrefix,
+  projectLivePrefix,
+  projectSharesPrefix,
+  projectSnapshotsPrefix,
+  shareKey,
+  StoredProject,
+} from './_shared/storage'
+import {
+  getMemberEmails,
+  getMembers,
+  getProjectAccess,
+  memberIndexKey,
+  normalizeEmail,
+  updateMemberIndex,
+  withMemberProfile,
+} from './_shared/members'
+import { getSignOff, withSignOff } from './_shared/signOff'
+import { appendActivity, diffProjectActivity } from './_shared/activity'
+import { ensureDailySnapshot } from './_shared/snapshots'
+import { findUnsafeProjectUrl } from './_shared/urls'
 
 const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
   // Enable CORS
@@ -30,8 +55,8 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
 
   try {
     // Check for authorization header
-    const authHeader = event.headers.authorization
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
       return {
         statusCode: 401,
         headers,
@@ -42,23 +67,22 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
       }
     }
 
-    const accessToken = authHeader.substring(7)
     
-    // Verify Google token
-    const userInfo = await verifyGoogleToken(accessToken)
+    // Verify the Google ID token locally against Google's signing keys
+    const userInfo = await verifyGoogleIdToken(idToken)
     if (!userInfo) {
       return {
         statusCode: 401,
         headers,
         body: JSON.stringify({ 
           error: 'Invalid Google token',
-          message: 'The provided access token is invalid or expired'
+          message: 'The provided ID token is invalid or expired'
         }),
       }
     }
 
     const requestBody = JSON.parse(event.body || '{}')
-    const { userId, userEmail, data, timestamp } = requestBody
+    const { userId, userEmail, projectId, ownerId, data, timestamp, baseRevision } = requestBody
     
     // Verify the user ID matches the token
     if (userId !== userInfo.id) {
@@ -72,13 +96,147 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
       }
     }
 
-    // Here you would typically save to a database
-    // For now, we'll just log and return success
-    console.log('=== SAVE REQUEST ===')
-    console.log(`User: ${userEmail} (${userId})`)
-    console.log(`Timestamp: ${timestamp}`)
-    console.log(`Data size: ${JSON.stringify(data).length} characters`)
-    console.log('==================')
+    if (!isValidProjectId(projectId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId',
+          message: 'The request body must include a valid projectId'
+        }),
+      }
+    }
+
+    if (data === undefined) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing data',
+          message: 'The request body must include a data field (null deletes the project)'
+        }),
+      }
+    }
+
+    if (baseRevision !== null && baseRevision !== undefined && !Number.isInteger(baseRevision)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid baseRevision',
+          message: 'baseRevision must be the integer revision the client last loaded, or null for a new project'
+        }),
+      }
+    }
+
+    if (ownerId !== undefined && (typeof ownerId !== 'string' || !ownerId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid ownerId',
+          message: 'ownerId must be the id of the user who owns the project'
+        }),
+      }
+    }
+
+    // Stored URLs are rendered as links for every member, so only web addresses are accepted
+    const unsafeUrl = findUnsafeProjectUrl(data)
+    if (unsafeUrl) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid URL',
+          message: `${unsafeUrl} must be an http or https URL`
+        }),
+      }
+    }
+
+    // Projects shared with the caller are saved under their owner's key
+    const store = getChecklistStore(event)
+    const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+    if (!access) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not a project member',
+          message: 'You are not a member of this project'
+        }),
+      }
+    }
+
+    const { key, record: current } = access
+    const updatedAt = new Date().toISOString()
+    const currentRevision = current ? current.revision ?? 0 : null
+
+    // Optimistic concurrency: the write must be based on the revision the server currently has.
+    // Clients that omit baseRevision keep the old last-write-wins behaviour.
+    if (baseRevision !== undefined && (baseRevision ?? null) !== currentRevision) {
+      return {
+        statusCode: 409,
+        headers,
+        body: JSON.stringify({
+          error: 'Revision conflict',
+          message: 'The project was changed by another device since it was last loaded',
+          projectId: projectId,
+          revision: currentRevision,
+          data: current ? current.data : null,
+          timestamp: current ? current.updatedAt : null
+        }),
+      }
+    }
+
+    const revision = (currentRevision ?? 0) + 1
+
+    const previousMembers = current ? getMemberEmails(current.data) : []
+
+    if (access.role === 'editor' && data === null && current) {
+      // A member deleting a shared project leaves it; the owner's copy stays
+      const email = normalizeEmail(userInfo.email)
+      const members = getMembers(current.data).filter(member => normalizeEmail(member.email) !== email)
+      await store.set(key, { ...current, data: { ...(current.data as object), members }, updatedAt, revision })
+      await store.delete(memberIndexKey(email, access.ownerId, projectId))
+      console.log(`${userInfo.email} left project ${projectId} owned by ${access.ownerId}`)
+    } else if (data === null) {
+      // A null payload means the project was deleted on the client
+      await store.delete(key)
+      await updateMemberIndex(store, access.ownerId, projectId, previousMembers, [])
+      // Share links to a deleted project stop working; drop them rather than leave them dangling
+      const sharesPrefix = projectSharesPrefix(access.ownerId, projectId)
+      const shareKeys = await store.list(sharesPrefix)
+      await Promise.all(shareKeys.flatMap(shareIndexKey => [
+        store.delete(shareIndexKey),
+        store.delete(shareKey(shareIndexKey.slice(sharesPrefix.length))),
+      ]))
+      // Comments, the activity log, snapshots and live updates belong to the project and go with it
+      const projectKeys = [
+        ...await store.list(projectCommentsPrefix(access.ownerId, projectId)),
+        ...await store.list(projectActivityPrefix(access.ownerId, projectId)),
+        ...await store.list(projectSnapshotsPrefix(access.ownerId, projectId)),
+        ...await store.list(projectLivePrefix(access.ownerId, projectId)),
+      ]
+      await Promise.all(projectKeys.map(projectDataKey => store.delete(projectDataKey)))
+      console.log(`Deleted project ${projectId} for ${userEmail} (${userId})`)
+    } else {
+      // Only the owner manages membership; members' saves keep the owner's list
+      const members = getMembers(access.role === 'owner' ? data : current?.data)
+      // Sign-off is only changed through the approvals endpoint, so saves always keep the stored one
+      const signedOffData = withSignOff(data, getSignOff(current?.data))
+      const record: StoredProject = {
+        data: { ...signedOffData, ownerId: access.ownerId, members: withMemberProfile(members, userInfo) },
+        userEmail: userInfo.email,
+        clientTimestamp: typeof timestamp === 'string' ? timestamp : null,
+        updatedAt,
+        revision,
+      }
+      if (current) await ensureDailySnapshot(store, access.ownerId, projectId, current)
+      await store.set(key, record)
+      await updateMemberIndex(store, access.ownerId, projectId, previousMembers, getMemberEmails(record.data))
+      await appendActivity(store, access.ownerId, projectId, userInfo, revision, diffProjectActivity(current?.data, record.data))
+      console.log(`Saved project ${projectId} for ${userEmail} (${userId}), ${JSON.stringify(data).length} characters`)
+    }
     
     return {
       statusCode: 200,
@@ -86,8 +244,11 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
       body: JSON.stringify({ 
         success: true, 
         message: 'Data saved successfully',
-        timestamp: new Date().toISOString(),
-        userId: userId
+        timestamp: updatedAt,
+        userId: userId,
+        projectId: projectId,
+        ownerId: access.ownerId,
+        revision: data === null ? null : revision
       }),
     }
     
@@ -104,33 +265,4 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext) =>
   }
 }
 
-// Helper function to verify Google access token
-async function verifyGoogleToken(accessToken: string) {
-  try {
-    const response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
-      headers: { 
-        'Authorization': `Bearer ${accessToken}`,
-        'Accept': 'application/json'
-      }
-    })
-    
-    if (!response.ok) {
-      console.error(`Google API error: ${response.status} ${response.statusText}`)
-      return null
-    }
-    
-    const userInfo = await response.json()
-    
-    // Validate required fields
-    if (!userInfo.id || !userInfo.email) {
-      console.error('Invalid user info from Google:', userInfo)
-      return null
-    }
-    
-    return userInfo
-  } catch (error) {
-    console.error('Token verification error:', error)
-    return null
-  }
-}
-
+export { handler }
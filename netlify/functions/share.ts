@@ -0,0 +1,259 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { randomBytes } from 'crypto'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { getProjectAccess, normalizeEmail } from './_shared/members'
+import {
+  getChecklistStore,
+  isValidProjectId,
+  projectKey,
+  projectSharesPrefix,
+  shareKey,
+  StoredProject,
+  StoredShare,
+} from './_shared/storage'
+
+// 32 url-safe characters from 24 random bytes
+const isValidShareToken = (token: unknown): token is string =>
+  typeof token === 'string' && /^[A-Za-z0-9_-]{32}$/.test(token)
+
+// What a stakeholder without an account gets to see: structure and progress, not notes, people or evidence
+function toReadOnlyProject(data: unknown) {
+  const project = (data ?? {}) as Record<string, unknown>
+  return {
+    id: project.id,
+    name: project.name,
+    templateId: project.templateId,
+    categories: project.categories,
+    checklists: project.checklists,
+    priorityWeights: project.priorityWeights,
+    schedule: project.schedule,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  }
+}
+
+const describeShare = (share: StoredShare) => ({
+  token: share.token,
+  projectId: share.projectId,
+  createdBy: share.createdBy,
+  createdAt: share.createdAt,
+})
+
+const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['GET', 'POST', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        message: 'This endpoint only accepts GET, POST and DELETE requests'
+      }),
+    }
+  }
+
+  try {
+    const store = getChecklistStore(event)
+    const query = event.queryStringParameters ?? {}
+
+    // Opening a share link is the one request that needs no sign-in: the token is the credential
+    if (event.httpMethod === 'GET' && query.token !== undefined) {
+      const share = isValidShareToken(query.token) ? await store.get<StoredShare>(shareKey(query.token)) : null
+      const record = share ? await store.get<StoredProject>(projectKey(share.ownerId, share.projectId)) : null
+      if (!share || !record) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({
+            error: 'Share link not found',
+            message: 'This link has been revoked or the project no longer exists'
+          }),
+        }
+      }
+
+      return {
+        statusCode: 200,
+        headers: { ...headers, 'Cache-Control': 'no-store' },
+        body: JSON.stringify({
+          success: true,
+          data: toReadOnlyProject(record.data),
+          timestamp: record.updatedAt,
+          message: 'Shared project loaded successfully'
+        }),
+      }
+    }
+
+    // Everything else manages links and requires a member of the project
+    const idToken = getBearerToken(event)
+    if (!idToken) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing or invalid authorization header',
+          message: 'Please provide a valid Bearer token'
+        }),
+      }
+    }
+
+    const userInfo = await verifyGoogleIdToken(idToken)
+    if (!userInfo) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid Google token',
+          message: 'The provided ID token is invalid or expired'
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      const share = isValidShareToken(query.token) ? await store.get<StoredShare>(shareKey(query.token)) : null
+      if (!share) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({
+            error: 'Share link not found',
+            message: 'The link does not exist or was already revoked'
+          }),
+        }
+      }
+
+      // The project owner can revoke any link; members only the ones they created
+      const isOwner = share.ownerId === userInfo.id
+      const isCreator = normalizeEmail(share.createdBy) === normalizeEmail(userInfo.email)
+      if (!isOwner && !(isCreator && await getProjectAccess(store, userInfo, share.projectId, share.ownerId))) {
+        return {
+          statusCode: 403,
+          headers,
+          body: JSON.stringify({
+            error: 'Not allowed',
+            message: 'Only the project owner or the person who created the link can revoke it'
+          }),
+        }
+      }
+
+      await store.delete(shareKey(share.token))
+      await store.delete(`${projectSharesPrefix(share.ownerId, share.projectId)}${share.token}`)
+      console.log(`Revoked share link for project ${share.projectId} (${userInfo.email})`)
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          message: 'Share link revoked',
+          projectId: share.projectId
+        }),
+      }
+    }
+
+    const params = event.httpMethod === 'POST' ? JSON.parse(event.body || '{}') : query
+    const { projectId } = params
+    const ownerId = params.ownerId || undefined
+
+    if (!isValidProjectId(projectId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId',
+          message: 'A valid projectId is required'
+        }),
+      }
+    }
+
+    const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+    if (!access) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not a project member',
+          message: 'You are not a member of this project'
+        }),
+      }
+    }
+
+    const prefix = projectSharesPrefix(access.ownerId, projectId)
+
+    if (event.httpMethod === 'GET') {
+      const keys = await store.list(prefix)
+      const shares = (await Promise.all(keys.map(key => store.get<StoredShare>(shareKey(key.slice(prefix.length))))))
+        .filter((share): share is StoredShare => share !== null)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          data: shares.map(describeShare),
+          projectId: projectId
+        }),
+      }
+    }
+
+    if (!access.record) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({
+          error: 'Project not found',
+          message: 'Sync the project to the cloud before sharing it'
+        }),
+      }
+    }
+
+    const share: StoredShare = {
+      token: randomBytes(24).toString('base64url'),
+      ownerId: access.ownerId,
+      projectId,
+      createdBy: userInfo.email,
+      createdAt: new Date().toISOString(),
+    }
+    await store.set(shareKey(share.token), share)
+    await store.set(`${prefix}${share.token}`, { token: share.token })
+    console.log(`Created share link for project ${projectId} (${userInfo.email})`)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        message: 'Share link created',
+        data: describeShare(share)
+      }),
+    }
+
+  } catch (error) {
+    console.error('Share endpoint error:', error)
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while handling the share link'
+      }),
+    }
+  }
+}
+
+export { handler }
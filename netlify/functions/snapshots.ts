@@ -0,0 +1,329 @@
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions'
+import { getBearerToken, verifyGoogleIdToken } from './_shared/auth'
+import { getMembers, getProjectAccess, normalizeEmail } from './_shared/members'
+import { getChecklistStore, isValidProjectId, projectSnapshotsPrefix, StoredProject } from './_shared/storage'
+import { appendActivity, diffProjectActivity } from './_shared/activity'
+import { getSignOff, withSignOff } from './_shared/signOff'
+import { createSnapshot, StoredSnapshot, toSnapshotSummary } from './_shared/snapshots'
+import { findUnsafeProjectUrl } from './_shared/urls'
+
+const MAX_NAME_LENGTH = 100
+
+const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/
+
+const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  }
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers,
+      body: '',
+    }
+  }
+
+  if (!['GET', 'POST', 'DELETE'].includes(event.httpMethod)) {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        message: 'This endpoint only accepts GET, POST and DELETE requests'
+      }),
+    }
+  }
+
+  try {
+    const idToken = getBearerToken(event)
+    if (!idToken) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Missing or invalid authorization header',
+          message: 'Please provide a valid Bearer token'
+        }),
+      }
+    }
+
+    const userInfo = await verifyGoogleIdToken(idToken)
+    if (!userInfo) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid Google token',
+          message: 'The provided ID token is invalid or expired'
+        }),
+      }
+    }
+
+    const params = event.httpMethod === 'POST' ? JSON.parse(event.body || '{}') : event.queryStringParameters ?? {}
+    const { projectId, snapshotId, action } = params
+    const ownerId = params.ownerId || undefined
+
+    if (!isValidProjectId(projectId)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid projectId',
+          message: 'A valid projectId is required'
+        }),
+      }
+    }
+
+    if (snapshotId !== undefined && (typeof snapshotId !== 'string' || !SNAPSHOT_ID_PATTERN.test(snapshotId))) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid snapshotId',
+          message: 'snapshotId must be the id of one of the project\'s snapshots'
+        }),
+      }
+    }
+
+    const store = getChecklistStore(event)
+    const access = await getProjectAccess(store, userInfo, projectId, ownerId)
+    if (!access) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify({
+          error: 'Not a project member',
+          message: 'You are not a member of this project'
+        }),
+      }
+    }
+
+    const prefix = projectSnapshotsPrefix(access.ownerId, projectId)
+    const snapshot = snapshotId ? await store.get<StoredSnapshot>(`${prefix}${snapshotId}`) : null
+    if (snapshotId && !snapshot) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({
+          error: 'Snapshot not found',
+          message: 'This snapshot does not exist or has been deleted'
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'GET') {
+      if (snapshot) {
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({
+            success: true,
+            data: snapshot,
+            projectId: projectId
+          }),
+        }
+      }
+
+      // The list leaves out project data; a snapshot is fetched in full when someone opens it
+      const snapshots = (await Promise.all((await store.list(prefix)).map(key => store.get<StoredSnapshot>(key))))
+        .filter((stored): stored is StoredSnapshot => stored !== null)
+        .map(toSnapshotSummary)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          data: snapshots,
+          projectId: projectId
+        }),
+      }
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      if (!snapshot) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({
+            error: 'Invalid snapshotId',
+            message: 'snapshotId is required'
+          }),
+        }
+      }
+
+      const isCreator = normalizeEmail(snapshot.createdBy) === normalizeEmail(userInfo.email)
+      if (access.role !== 'owner' && !(snapshot.kind === 'manual' && isCreator)) {
+        return {
+          statusCode: 403,
+          headers,
+          body: JSON.stringify({
+            error: 'Not allowed',
+            message: 'Only the project owner or the person who named a snapshot can delete it'
+          }),
+        }
+      }
+
+      await store.delete(`${prefix}${snapshot.id}`)
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          message: 'Snapshot deleted',
+          projectId: projectId
+        }),
+      }
+    }
+
+    const { key, record: current } = access
+
+    if (action === 'restore') {
+      if (!snapshot || !current) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({
+            error: snapshot ? 'Project not found' : 'Invalid snapshotId',
+            message: snapshot ? 'The project has no saved copy to restore into' : 'snapshotId is required'
+          }),
+        }
+      }
+
+      const currentRevision = current.revision ?? 0
+      const now = new Date().toISOString()
+
+      // The state being replaced is kept too, so a restore can itself be undone
+      await createSnapshot(store, access.ownerId, projectId, {
+        kind: 'restore',
+        name: `Before restoring "${snapshot.name}"`,
+        createdBy: userInfo.email,
+        revision: currentRevision,
+        data: current.data,
+      })
+
+      // Content comes from the snapshot; membership and sign-off stay as they are on the server
+      const signedOffData = withSignOff(snapshot.data, getSignOff(current.data))
+      const revision = currentRevision + 1
+      const record: StoredProject = {
+        ...current,
+        data: { ...signedOffData, ownerId: access.ownerId, members: getMembers(current.data) },
+        userEmail: userInfo.email,
+        updatedAt: now,
+        revision,
+      }
+      await store.set(key, record)
+      await appendActivity(store, access.ownerId, projectId, userInfo, revision, [
+        {
+          type: 'restore',
+          from: { revision: currentRevision },
+          to: { snapshotId: snapshot.id, name: snapshot.name, revision: snapshot.revision },
+        },
+        ...diffProjectActivity(current.data, record.data),
+      ])
+      console.log(`Project ${projectId} restored to snapshot ${snapshot.id} by ${userInfo.email}`)
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          message: 'Snapshot restored',
+          data: record.data,
+          projectId: projectId,
+          revision: revision
+        }),
+      }
+    }
+
+    if (action !== 'create') {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid action',
+          message: 'action must be "create" or "restore"'
+        }),
+      }
+    }
+
+    // Named snapshots are taken by people; import snapshots by the client just before an import
+    const kind = params.kind ?? 'manual'
+    const name = typeof params.name === 'string' ? params.name.trim() : ''
+    if ((kind !== 'manual' && kind !== 'import') || (kind === 'manual' && !name) || name.length > MAX_NAME_LENGTH) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid snapshot',
+          message: `kind must be "manual" or "import", and a manual snapshot needs a name of at most ${MAX_NAME_LENGTH} characters`
+        }),
+      }
+    }
+
+    // The client may send its local copy, which can be ahead of (or never have reached) the server
+    const data = params.data ?? current?.data
+    if (!data || typeof data !== 'object') {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify({
+          error: 'Project not found',
+          message: 'There is no copy of this project to snapshot'
+        }),
+      }
+    }
+
+    // A snapshot can be restored into the project, so it is held to the same rules as a save
+    const unsafeUrl = findUnsafeProjectUrl(data)
+    if (unsafeUrl) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: 'Invalid URL',
+          message: `${unsafeUrl} must be an http or https URL`
+        }),
+      }
+    }
+
+    const created = await createSnapshot(store, access.ownerId, projectId, {
+      kind,
+      name: name || `Before import on ${new Date().toISOString().slice(0, 10)}`,
+      createdBy: userInfo.email,
+      revision: current ? current.revision ?? 0 : null,
+      data,
+    })
+    console.log(`Snapshot ${created.id} (${kind}) of project ${projectId} taken by ${userInfo.email}`)
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        message: 'Snapshot created',
+        data: toSnapshotSummary(created),
+        projectId: projectId
+      }),
+    }
+
+  } catch (error) {
+    console.error('Snapshots endpoint error:', error)
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while handling snapshots'
+      }),
+    }
+  }
+}
+
+export { handler }
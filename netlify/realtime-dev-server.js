@@ -0,0 +1,164 @@
+// Push server for live updates, for local development only.
+//
+// Deployed apps get live updates from the live function (netlify/functions/live.ts), which viewers poll.
+// When a live updates server is configured in the app, it is used instead, over server-sent events.
+// This server implements that protocol in memory for one machine:
+//
+//   GET  /channels/:ownerId/:projectId/events?token=<Google ID token>&clientId=<id>&tab=<categoryId>
+//        Server-sent events: `presence` (everyone viewing the project) and `change` (item status changes)
+//   POST /channels/:ownerId/:projectId/messages   (Authorization: Bearer <Google ID token>)
+//        { clientId, type: 'presence', tab } or { clientId, type: 'change', itemId, from, to }
+//
+// Membership is checked against the file store `netlify dev` writes to. ID tokens are decoded but their
+// signatures are NOT verified, so never expose this server beyond localhost.
+//
+// Run with `npm run dev:realtime` and set VITE_REALTIME_URL=http://localhost:8899 for the app.
+
+import { createServer } from 'http'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+const PORT = Number(process.env.REALTIME_PORT || 8899)
+const STORE_DIR = path.resolve(process.env.CHECKLIST_STORE_DIR || '.netlify/checklist-store')
+const HEARTBEAT_MS = 25000
+
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+// channel key -> Map of clientId -> { res, viewer }
+const channels = new Map()
+
+function decodeIdToken(token) {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'))
+    if (!payload.sub || !payload.email || payload.exp * 1000 < Date.now()) return null
+    return { id: payload.sub, email: payload.email.toLowerCase(), name: payload.name, picture: payload.picture }
+  } catch {
+    return null
+  }
+}
+
+// Same layout as createFileStore in netlify/functions/_shared/storage.ts
+async function readProject(ownerId, projectId) {
+  const segments = ['users', ownerId, 'projects', projectId].map(segment => encodeURIComponent(segment))
+  try {
+    return JSON.parse(await fs.readFile(path.join(STORE_DIR, ...segments) + '.json', 'utf8'))
+  } catch {
+    return null
+  }
+}
+
+async function canAccess(identity, ownerId, projectId) {
+  if (identity.id === ownerId) return true
+  const record = await readProject(ownerId, projectId)
+  const members = Array.isArray(record?.data?.members) ? record.data.members : []
+  return members.some(member => member.role !== 'owner' && member.email?.toLowerCase() === identity.email)
+}
+
+function send(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+function broadcast(key, event, data, exceptClientId) {
+  const channel = channels.get(key)
+  if (!channel) return
+  channel.forEach((client, clientId) => {
+    if (clientId !== exceptClientId) send(client.res, event, data)
+  })
+}
+
+function broadcastPresence(key) {
+  const channel = channels.get(key)
+  broadcast(key, 'presence', { viewers: channel ? [...channel.values()].map(client => client.viewer) : [] })
+}
+
+function reply(res, statusCode, body) {
+  res.writeHead(statusCode, { ...headers, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req) {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return JSON.parse(body || '{}')
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(200, headers)
+    res.end()
+    return
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`)
+  const match = /^\/channels\/([^/]+)\/([^/]+)\/(events|messages)$/.exec(url.pathname)
+  if (!match) return reply(res, 404, { error: 'Not found', message: 'Unknown path' })
+
+  const [, ownerId, projectId, kind] = match.map(decodeURIComponent)
+  const key = `${ownerId}/${projectId}`
+  const token = kind === 'events'
+    ? url.searchParams.get('token')
+    : (req.headers.authorization || '').replace(/^Bearer /, '')
+  const identity = token ? decodeIdToken(token) : null
+
+  if (!identity) return reply(res, 401, { error: 'Invalid token', message: 'A valid Google ID token is required' })
+  if (!(await canAccess(identity, ownerId, projectId))) {
+    return reply(res, 403, { error: 'Not a project member', message: 'You are not a member of this project' })
+  }
+
+  try {
+    if (kind === 'events' && req.method === 'GET') {
+      const clientId = url.searchParams.get('clientId')
+      if (!clientId) return reply(res, 400, { error: 'Missing clientId', message: 'clientId is required' })
+
+      res.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' })
+      const viewer = { clientId, email: identity.email, name: identity.name, picture: identity.picture, tab: url.searchParams.get('tab') }
+      if (!channels.has(key)) channels.set(key, new Map())
+      channels.get(key).set(clientId, { res, viewer })
+      broadcastPresence(key)
+
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+      req.on('close', () => {
+        clearInterval(heartbeat)
+        const channel = channels.get(key)
+        channel?.delete(clientId)
+        if (channel?.size === 0) channels.delete(key)
+        broadcastPresence(key)
+      })
+      return
+    }
+
+    if (kind === 'messages' && req.method === 'POST') {
+      const message = await readBody(req)
+      const client = channels.get(key)?.get(message.clientId)
+
+      if (message.type === 'presence') {
+        if (client) client.viewer.tab = message.tab ?? null
+        broadcastPresence(key)
+      } else if (message.type === 'change' && typeof message.itemId === 'string') {
+        broadcast(key, 'change', {
+          clientId: message.clientId,
+          author: { email: identity.email, name: identity.name },
+          itemId: message.itemId,
+          from: message.from,
+          to: message.to,
+        }, message.clientId)
+      } else {
+        return reply(res, 400, { error: 'Invalid message', message: 'type must be "presence" or "change"' })
+      }
+      return reply(res, 200, { success: true })
+    }
+
+    reply(res, 405, { error: 'Method not allowed', message: 'Use GET for events and POST for messages' })
+  } catch (error) {
+    console.error('Realtime dev server error:', error)
+    reply(res, 500, { error: 'Internal server error', message: 'An unexpected error occurred' })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Live updates dev server on http://localhost:${PORT} (store: ${STORE_DIR})`)
+})